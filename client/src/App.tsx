@@ -1,28 +1,43 @@
 import React from 'react';
 import GameCanvas from './components/GameCanvas';
 import Leaderboard from './components/Leaderboard';
+import MapEditor from './components/MapEditor';
 import './App.css';
 
+// ?editor in the page URL opens the map editor instead of the game
+const EDITOR = new URLSearchParams(window.location.search).has('editor');
+
 const App: React.FC = () => {
+  const controls = EDITOR
+    ? 'Left mouse to paint, right mouse or Space + drag to pan, Ctrl+Z / Ctrl+Y to undo / redo'
+    : 'Controls: Arrow keys to move, Spacebar to fire';
+
   return (
     <div className="app-container">
       <header className="app-header">
         <h1>Tank 90 Multiplayer</h1>
-        <p className="controls-info desktop-only">Controls: Arrow keys to move, Spacebar to fire</p>
+        <p className="controls-info desktop-only">{controls}</p>
+        <a className="view-link" href={EDITOR ? '?' : '?editor'}>{EDITOR ? 'Play' : 'Map editor'}</a>
       </header>
-      <main className="app-main">
-        <div className="game-section">
-          <GameCanvas />
-        </div>
-        <aside className="leaderboard-section">
-          <Leaderboard />
-        </aside>
-      </main>
+      {EDITOR ? (
+        <main className="app-main app-main-editor">
+          <MapEditor />
+        </main>
+      ) : (
+        <main className="app-main">
+          <div className="game-section">
+            <GameCanvas />
+          </div>
+          <aside className="leaderboard-section">
+            <Leaderboard />
+          </aside>
+        </main>
+      )}
       <footer className="app-footer mobile-only">
-        <p>Controls: Arrow keys to move, Spacebar to fire</p>
+        <p>{controls}</p>
       </footer>
     </div>
   );
 };
 
-export default App; 
\ No newline at end of file
+export default App;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { SnapshotMatch } from '../../../shared/Snapshot';
+import { StageClearPayload, GameOverPayload } from '../../../shared/Protocol';
+import './TeamScoreboard.css';
+
+interface CoopHudProps {
+  match: SnapshotMatch;
+  result: StageClearPayload | GameOverPayload | null; // Outcome of the stage that just ended
+}
+
+const CoopHud: React.FC<CoopHudProps> = ({ match, result }) => (
+  <>
+    <div className="team-scoreboard">
+      <div className="team-score">
+        <span className="team-score-name">Stage</span>
+        <span className="team-score-value">{match.st}</span>
+      </div>
+      <div className="team-score">
+        <span className="team-score-name">Enemies</span>
+        <span className="team-score-value">{match.en}</span>
+      </div>
+    </div>
+    {match.ov === 1 && result && (
+      'victory' in result ? (
+        <div className="match-end-screen">
+          <h2>{result.victory ? 'Victory!' : 'Game over'}</h2>
+          <p>{result.victory ? 'Every stage cleared' : `Base destroyed on stage ${result.stage}`}</p>
+          <p>Restarting from stage 1 soon...</p>
+        </div>
+      ) : (
+        <div className="match-end-screen">
+          <h2>Stage {result.stage} clear</h2>
+          <p>Stage {result.stage + 1} starting soon...</p>
+        </div>
+      )
+    )}
+  </>
+);
+
+export default CoopHud;
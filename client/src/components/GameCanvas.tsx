@@ -5,20 +5,34 @@ import { Camera } from '../game/Camera';
 import { TankManager } from '../game/managers/TankManager';
 import { BulletManager } from '../game/managers/BulletManager';
 import { MapManager } from '../game/managers/MapManager';
+import { PickupManager } from '../game/managers/PickupManager';
+import { POWER_UP_COLORS } from '../game/PowerUps';
+import { WeaponType, WEAPON_NAMES } from '../game/Weapons';
+import { drawWorldGrid } from '../game/WorldGrid';
 import { useInput } from '../hooks/useInput';
 import { useGameLoop } from '../hooks/useGameLoop';
+import { SnapshotMatch } from '../../../shared/Snapshot';
+import { Team, TEAM_COLORS } from '../../../shared/GameMode';
+import { TankClass, TANK_CLASSES, TANK_CLASS_STATS } from '../../../shared/TankClass';
+import { MatchEndPayload, StageClearPayload, GameOverPayload, MapInfoPayload, KillPayload } from '../../../shared/Protocol';
+import { KillTally } from '../types/game';
 import Minimap from './Minimap';
+import TeamScoreboard from './TeamScoreboard';
+import CoopHud from './CoopHud';
+import KillFeed, { KillFeedEntry } from './KillFeed';
 import Joystick from './Joystick';
 import './GameCanvas.css';
 
 const VIEWPORT_WIDTH = 1280;
 const VIEWPORT_HEIGHT = 720;
 const ASPECT_RATIO = VIEWPORT_WIDTH / VIEWPORT_HEIGHT;
-const WORLD_WIDTH = 4000;
+const WORLD_WIDTH = 4000; // Until the server sends the room's map
 const WORLD_HEIGHT = 4000;
 const MINIMAP_WIDTH = 160;
 const MINIMAP_HEIGHT = 160;
 const SHOOT_BTN_SIZE = 80;
+const KILL_FEED_LENGTH = 5;
+const KILL_FEED_LIFETIME = 6000; // ms an entry stays in the kill feed
 
 const GameCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -33,12 +47,102 @@ const GameCanvas: React.FC = () => {
     }
   }, []);
 
+  const [weapon, setWeapon] = useState<{ type: WeaponType; ammo: number }>({ type: 'cannon', ammo: 0 });
+
+  const onWeaponUpdate = useCallback((type: WeaponType, ammo: number) => {
+    setWeapon(current => (current.type === type && current.ammo === ammo ? current : { type, ammo }));
+  }, []);
+
+  const [tally, setTally] = useState<KillTally>({ kills: 0, deaths: 0, assists: 0 });
+
+  const onTallyUpdate = useCallback((next: KillTally) => {
+    setTally(current => (
+      current.kills === next.kills && current.deaths === next.deaths && current.assists === next.assists ? current : next
+    ));
+  }, []);
+
+  const [killFeed, setKillFeed] = useState<KillFeedEntry[]>([]);
+  const nextKillKeyRef = useRef(0);
+
+  const onKill = useCallback((kill: KillPayload) => {
+    const entry = { key: nextKillKeyRef.current++, kill, at: Date.now() };
+    setKillFeed(current => [...current, entry].slice(-KILL_FEED_LENGTH));
+  }, []);
+
+  // Drop kill feed entries once they are old
+  useEffect(() => {
+    if (killFeed.length === 0) return;
+    const timeout = setTimeout(() => {
+      setKillFeed(current => current.filter(entry => Date.now() - entry.at < KILL_FEED_LIFETIME));
+    }, Math.max(0, killFeed[0].at + KILL_FEED_LIFETIME - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [killFeed]);
+
+  const [respawnAt, setRespawnAt] = useState<number | null>(null);
+  const [nextClass, setNextClass] = useState<TankClass>(() => WebSocketService.getInstance().getTankClass());
+
+  const selectClass = useCallback((tankClass: TankClass) => {
+    WebSocketService.getInstance().selectTankClass(tankClass);
+    setNextClass(tankClass);
+  }, []);
+  const [respawnCountdown, setRespawnCountdown] = useState(0);
+
+  const onLocalDeath = useCallback((respawnIn: number) => {
+    setRespawnAt(Date.now() + respawnIn);
+    setRespawnCountdown(Math.ceil(respawnIn / 1000));
+  }, []);
+
+  const onLocalRespawn = useCallback(() => {
+    setRespawnAt(null);
+  }, []);
+
+  useEffect(() => {
+    if (respawnAt === null) return;
+    const interval = setInterval(() => {
+      setRespawnCountdown(Math.max(0, Math.ceil((respawnAt - Date.now()) / 1000)));
+    }, 200);
+    return () => clearInterval(interval);
+  }, [respawnAt]);
+
+  const [match, setMatch] = useState<SnapshotMatch | null>(null);
+  const [localTeam, setLocalTeam] = useState<Team>(Team.NONE);
+  const [matchResult, setMatchResult] = useState<MatchEndPayload | null>(null);
+
+  const onMatchUpdate = useCallback((state: SnapshotMatch | null, team: Team) => {
+    setMatch(state);
+    setLocalTeam(team);
+  }, []);
+
+  const onMatchEnd = useCallback((result: MatchEndPayload) => {
+    setMatchResult(result);
+  }, []);
+
+  const [stageResult, setStageResult] = useState<StageClearPayload | GameOverPayload | null>(null);
+
+  const onStageEnd = useCallback((result: StageClearPayload | GameOverPayload) => {
+    setStageResult(result);
+  }, []);
+
+  const worldSizeRef = useRef({ width: WORLD_WIDTH, height: WORLD_HEIGHT });
+  const gridRef = useRef<PIXI.Graphics | null>(null);
+
   const [pixiApp, setPixiApp] = useState<PIXI.Application | null>(null);
   const [worldContainer, setWorldContainer] = useState<PIXI.Container | null>(null);
   const [camera, setCamera] = useState<Camera | null>(null);
+
+  const [mapCaption, setMapCaption] = useState('');
+
+  const onMapInfo = useCallback((info: MapInfoPayload) => {
+    // Generated maps show their name so the seed can be shared and replayed with ?map=
+    setMapCaption(info.seed !== undefined ? `${info.title} · ${info.name}` : info.title);
+    worldSizeRef.current = { width: info.width, height: info.height };
+    camera?.setWorldSize(info.width, info.height);
+    if (gridRef.current) drawWorldGrid(gridRef.current, info.width, info.height);
+  }, [camera]);
   const [tankManager, setTankManager] = useState<TankManager | null>(null);
   const [bulletManager, setBulletManager] = useState<BulletManager | null>(null);
   const [mapManager, setMapManager] = useState<MapManager | null>(null);
+  const [pickupManager, setPickupManager] = useState<PickupManager | null>(null);
 
   const {
     keysRef,
@@ -59,8 +163,8 @@ const GameCanvas: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const MINIMAP_SCALE_X = MINIMAP_WIDTH / WORLD_WIDTH;
-    const MINIMAP_SCALE_Y = MINIMAP_HEIGHT / WORLD_HEIGHT;
+    const MINIMAP_SCALE_X = MINIMAP_WIDTH / worldSizeRef.current.width;
+    const MINIMAP_SCALE_Y = MINIMAP_HEIGHT / worldSizeRef.current.height;
 
     ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
     ctx.fillStyle = 'rgba(0,0,0,0.4)';
@@ -84,9 +188,15 @@ const GameCanvas: React.FC = () => {
       ctx.save();
       ctx.translate(x, y);
       ctx.rotate(t.rotation);
-      ctx.fillStyle = '#4f7f4f';
+      const isLocal = localId && t.id === localId;
+      ctx.fillStyle = t.team ? '#' + TEAM_COLORS[t.team as Team].toString(16).padStart(6, '0') : '#4f7f4f';
       ctx.fillRect(-3, -3, 6, 6);
-      ctx.fillStyle = localId && t.id === localId ? 'rgba(255,255,0,0.9)' : 'rgba(255,0,0,0.9)';
+      if (isLocal && t.team) {
+        // Team colors are taken, so outline our own marker instead
+        ctx.strokeStyle = 'rgba(255,255,255,0.9)';
+        ctx.strokeRect(-3.5, -3.5, 7, 7);
+      }
+      ctx.fillStyle = isLocal ? 'rgba(255,255,0,0.9)' : 'rgba(255,0,0,0.9)';
       ctx.beginPath(); ctx.moveTo(0, -6); ctx.lineTo(-2, -2); ctx.lineTo(2, -2); ctx.closePath(); ctx.fill();
       ctx.restore();
     });
@@ -94,13 +204,32 @@ const GameCanvas: React.FC = () => {
     // Draw map objects
     mapManager.getMapObjects().forEach((sprite, objId) => {
       if (!sprite.visible) return;
-      ctx.fillStyle = objId.startsWith('brick') ? 'rgba(139, 69, 19, 0.6)' :
-                      objId.startsWith('concrete') ? 'rgba(128, 128, 128, 0.6)' :
-                      objId.startsWith('water') ? 'rgba(65, 105, 225, 0.5)' :
-                      objId.startsWith('tree') ? 'rgba(34, 139, 34, 0.5)' : 'rgba(255, 255, 255, 0.3)';
+      const type = mapManager.getObjectType(objId);
+      if (type === 'base') {
+        // Enlarged so a 2x2-cell base is visible at minimap scale
+        const base = mapManager.getObjectData(objId);
+        ctx.fillStyle = base?.destroyed ? 'rgba(128, 128, 128, 0.9)' : '#' + TEAM_COLORS[(base?.team ?? Team.NONE) as Team].toString(16).padStart(6, '0');
+        ctx.fillRect(sprite.x * MINIMAP_SCALE_X - 2, sprite.y * MINIMAP_SCALE_Y - 2, sprite.width * MINIMAP_SCALE_X + 4, sprite.height * MINIMAP_SCALE_Y + 4);
+        return;
+      }
+      ctx.fillStyle = type === 'brick_wall' ? 'rgba(139, 69, 19, 0.6)' :
+                      type === 'concrete_wall' ? 'rgba(128, 128, 128, 0.6)' :
+                      type === 'steel' ? 'rgba(200, 210, 220, 0.7)' :
+                      type === 'water' ? 'rgba(65, 105, 225, 0.5)' :
+                      type === 'ice' ? 'rgba(190, 230, 255, 0.5)' :
+                      type === 'tree' ? 'rgba(34, 139, 34, 0.5)' :
+                      type === 'bush' ? 'rgba(107, 142, 35, 0.5)' : 'rgba(255, 255, 255, 0.3)';
       ctx.fillRect(sprite.x * MINIMAP_SCALE_X, sprite.y * MINIMAP_SCALE_Y, sprite.width * MINIMAP_SCALE_X, sprite.height * MINIMAP_SCALE_Y);
     });
 
+    // Draw pickups
+    if (pickupManager) {
+      pickupManager.getPickups().forEach((pk) => {
+        ctx.fillStyle = '#' + (POWER_UP_COLORS[pk.type] ?? 0xFFFFFF).toString(16).padStart(6, '0');
+        ctx.fillRect(pk.sprite.x * MINIMAP_SCALE_X - 2, pk.sprite.y * MINIMAP_SCALE_Y - 2, 4, 4);
+      });
+    }
+
     // Draw bullets
     ctx.fillStyle = 'rgba(255,255,255,0.9)';
     bulletManager.getBullets().forEach((b) => {
@@ -109,7 +238,7 @@ const GameCanvas: React.FC = () => {
 
     ctx.strokeStyle = 'rgba(255,255,255,0.2)';
     ctx.strokeRect(0.5, 0.5, MINIMAP_WIDTH - 1, MINIMAP_HEIGHT - 1);
-  }, [wsService, tankManager, bulletManager, mapManager]);
+  }, [wsService, tankManager, bulletManager, mapManager, pickupManager]);
 
   const { handleShoot } = useGameLoop({
     app: pixiApp,
@@ -118,11 +247,21 @@ const GameCanvas: React.FC = () => {
     tankManager: tankManager,
     bulletManager: bulletManager,
     mapManager: mapManager,
+    pickupManager: pickupManager,
     keysRef,
     isTouchDevice,
     joystickMagnitudeRef,
     joystickVecRef,
     onScoreUpdate: onScoreUpdate,
+    onWeaponUpdate,
+    onTallyUpdate,
+    onKill,
+    onLocalDeath,
+    onLocalRespawn,
+    onMatchUpdate,
+    onMatchEnd,
+    onStageEnd,
+    onMapInfo,
     drawMinimap,
   });
 
@@ -151,15 +290,15 @@ const GameCanvas: React.FC = () => {
     setWorldContainer(world);
 
     const grid = new PIXI.Graphics();
-    grid.lineStyle(1, 0x555555, 0.4);
-    for (let x = 0; x <= WORLD_WIDTH; x += 40) { grid.moveTo(x + 0.5, 0); grid.lineTo(x + 0.5, WORLD_HEIGHT); }
-    for (let y = 0; y <= WORLD_HEIGHT; y += 40) { grid.moveTo(0, y + 0.5); grid.lineTo(WORLD_WIDTH, y + 0.5); }
+    drawWorldGrid(grid, WORLD_WIDTH, WORLD_HEIGHT);
     grid.zIndex = -10;
     world.addChild(grid);
+    gridRef.current = grid;
 
     setTankManager(new TankManager(world));
     setBulletManager(new BulletManager(world));
     setMapManager(new MapManager(world));
+    setPickupManager(new PickupManager(world));
 
     wsService.connect();
 
@@ -190,7 +329,37 @@ const GameCanvas: React.FC = () => {
   return (
     <div className="game-canvas-wrapper">
       <div ref={canvasRef} className="game-canvas-container" />
-      <Minimap canvasRef={minimapRef} width={MINIMAP_WIDTH} height={MINIMAP_HEIGHT} />
+      {respawnAt !== null && (
+        <div className="death-screen">
+          <h2>You were destroyed</h2>
+          <p>{respawnCountdown > 0 ? `Respawning in ${respawnCountdown}...` : 'Respawning...'}</p>
+          <div className="class-picker">
+            {TANK_CLASSES.map(tankClass => {
+              const stats = TANK_CLASS_STATS[tankClass];
+              return (
+                <button
+                  key={tankClass}
+                  className={tankClass === nextClass ? 'selected' : undefined}
+                  onClick={() => selectClass(tankClass)}
+                >
+                  <strong>{stats.title}</strong>
+                  <span>{stats.maxHealth} HP · {Math.round(stats.speed)} speed</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {match && (match.md === 'coop'
+        ? <CoopHud match={match} result={stageResult} />
+        : <TeamScoreboard match={match} localTeam={localTeam} result={matchResult} />)}
+      <KillFeed entries={killFeed} localId={WebSocketService.getInstance().getSocketId()} tally={tally} />
+      {weapon.type !== 'cannon' && (
+        <div className="weapon-hud">
+          {WEAPON_NAMES[weapon.type] ?? weapon.type} <span className="weapon-hud-ammo">×{weapon.ammo}</span>
+        </div>
+      )}
+      <Minimap canvasRef={minimapRef} width={MINIMAP_WIDTH} height={MINIMAP_HEIGHT} caption={mapCaption} />
       {isTouchDevice && (
         <>
           <Joystick
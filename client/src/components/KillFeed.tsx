@@ -0,0 +1,54 @@
+import React from 'react';
+import { KillPayload } from '../../../shared/Protocol';
+import { WeaponType, WEAPON_NAMES } from '../game/Weapons';
+import { KillTally } from '../types/game';
+import './KillFeed.css';
+
+export interface KillFeedEntry {
+  key: number;
+  kill: KillPayload;
+  at: number; // Date.now() when it arrived
+}
+
+interface KillFeedProps {
+  entries: KillFeedEntry[]; // Newest last
+  localId?: string;
+  tally: KillTally; // The local player's, this match
+}
+
+// Players are only known by id: bots and co-op enemies have readable ones, socket ids are shortened
+const tankName = (id: string, localId?: string) => {
+  if (id === localId) return 'You';
+  return id.startsWith('bot-') || id.startsWith('enemy-') ? id : id.slice(0, 6);
+};
+
+const weaponName = (weapon: string) =>
+  weapon === 'bomb' ? 'Bomb' : WEAPON_NAMES[weapon as WeaponType] ?? weapon;
+
+const KillFeed: React.FC<KillFeedProps> = ({ entries, localId, tally }) => {
+  const nameClass = (id: string) => `kill-feed-name${id === localId ? ' kill-feed-local' : ''}`;
+
+  return (
+    <div className="kill-feed">
+      <div className="kill-feed-tally">
+        K {tally.kills} / D {tally.deaths} / A {tally.assists}
+      </div>
+      {entries.map(({ key, kill }) => (
+        <div key={key} className="kill-feed-entry">
+          {kill.killerId && (
+            <span className={nameClass(kill.killerId)}>{tankName(kill.killerId, localId)}</span>
+          )}
+          {kill.assisterIds.length > 0 && (
+            <span className="kill-feed-assists">
+              + {kill.assisterIds.map(id => tankName(id, localId)).join(', ')}
+            </span>
+          )}
+          <span className="kill-feed-weapon">[{weaponName(kill.weapon)}]</span>
+          <span className={nameClass(kill.victimId)}>{tankName(kill.victimId, localId)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default KillFeed;
@@ -0,0 +1,513 @@
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import * as PIXI from 'pixi.js';
+import WebSocketService from '../services/websocket';
+import { Camera } from '../game/Camera';
+import { MapManager } from '../game/managers/MapManager';
+import { MapDocument, MapMetadata, EditorBrush } from '../game/MapDocument';
+import { drawWorldGrid } from '../game/WorldGrid';
+import { MapObject, MapObjectType, CELL_SIZE } from '../../../shared/MapObject';
+import { MAX_RICOCHET, parseMap, serializeMap } from '../../../shared/MapFormat';
+import Minimap from './Minimap';
+import './MapEditor.css';
+
+const VIEWPORT_WIDTH = 1280;
+const VIEWPORT_HEIGHT = 720;
+const MINIMAP_SIZE = 160;
+const NEW_MAP_SIZE = 2000;
+const PAN_SPEED = 900; // World units per second while an arrow key is held
+const DRAFT_KEY = 'tank90-map-editor-draft'; // localStorage key of the autosaved map
+
+type EditorTool = 'brush' | 'rect';
+
+const PALETTE: { brush: EditorBrush; label: string; key: string; color: string }[] = [
+  { brush: MapObjectType.BRICK_WALL, label: 'Brick', key: '1', color: '#8B4513' },
+  { brush: MapObjectType.CONCRETE_WALL, label: 'Concrete', key: '2', color: '#808080' },
+  { brush: MapObjectType.STEEL, label: 'Steel', key: '3', color: '#C8D2DC' },
+  { brush: MapObjectType.WATER, label: 'Water', key: '4', color: '#4169E1' },
+  { brush: MapObjectType.ICE, label: 'Ice', key: '5', color: '#BEE6FF' },
+  { brush: MapObjectType.TREE, label: 'Tree', key: '6', color: '#228B22' },
+  { brush: MapObjectType.BUSH, label: 'Bush', key: '7', color: '#6B8E23' },
+  { brush: 'spawn', label: 'Spawn', key: '8', color: '#FFD700' },
+  { brush: 'erase', label: 'Eraser', key: '9', color: '#ff4d4d' },
+];
+
+const MINIMAP_COLORS: Record<string, string> = {
+  brick_wall: 'rgba(139, 69, 19, 0.9)',
+  concrete_wall: 'rgba(128, 128, 128, 0.9)',
+  steel: 'rgba(200, 210, 220, 0.9)',
+  water: 'rgba(65, 105, 225, 0.8)',
+  ice: 'rgba(190, 230, 255, 0.8)',
+  tree: 'rgba(34, 139, 34, 0.8)',
+  bush: 'rgba(107, 142, 35, 0.8)',
+};
+
+const PAN_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1],
+  a: [-1, 0], d: [1, 0], w: [0, -1], s: [0, 1],
+};
+
+interface EditorScene {
+  app: PIXI.Application;
+  world: PIXI.Container;
+  camera: Camera;
+  mapManager: MapManager;
+  grid: PIXI.Graphics;
+  spawns: PIXI.Graphics;
+  cursor: PIXI.Graphics;
+  gridSize: { width: number; height: number };
+}
+
+// The last autosaved map, or a blank one. Not validated: drafts may be unfinished.
+function loadDraft(): MapDocument {
+  try {
+    const draft = localStorage.getItem(DRAFT_KEY);
+    if (draft) return MapDocument.fromDefinition(JSON.parse(draft));
+  } catch (error) {
+    console.warn('Discarding unreadable map draft:', error);
+  }
+  return MapDocument.create(NEW_MAP_SIZE, NEW_MAP_SIZE);
+}
+
+// Grid cells on the line between two cells, so fast brush strokes leave no gaps
+function cellsBetween(from: [number, number], to: [number, number]): [number, number][] {
+  const steps = Math.max(Math.abs(to[0] - from[0]), Math.abs(to[1] - from[1]));
+  const cells: [number, number][] = [];
+  for (let i = 1; i <= steps; i++) {
+    cells.push([
+      Math.round(from[0] + ((to[0] - from[0]) * i) / steps),
+      Math.round(from[1] + ((to[1] - from[1]) * i) / steps),
+    ]);
+  }
+  return cells;
+}
+
+const MapEditor: React.FC = () => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sceneRef = useRef<EditorScene | null>(null);
+  const centerRef = useRef({ x: NEW_MAP_SIZE / 2, y: NEW_MAP_SIZE / 2 }); // World point at the middle of the view
+
+  const [doc, setDoc] = useState(loadDraft);
+  const docRef = useRef(doc);
+  docRef.current = doc;
+  const [revision, setRevision] = useState(0); // Bumped after each edit to refresh the toolbar and autosave
+
+  const [brush, setBrush] = useState<EditorBrush>(MapObjectType.BRICK_WALL);
+  const [tool, setTool] = useState<EditorTool>('brush');
+  const brushRef = useRef(brush);
+  brushRef.current = brush;
+  const toolRef = useRef(tool);
+  toolRef.current = tool;
+
+  const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+  const [playtesting, setPlaytesting] = useState(false);
+
+  const drawMinimap = useCallback(() => {
+    const canvas = minimapRef.current;
+    const scene = sceneRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ctx || !scene) return;
+    const current = docRef.current;
+    const scaleX = MINIMAP_SIZE / current.getWidth();
+    const scaleY = MINIMAP_SIZE / current.getHeight();
+
+    ctx.clearRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+    for (const cell of current.getCells()) {
+      ctx.fillStyle = MINIMAP_COLORS[cell.type];
+      ctx.fillRect(cell.x * scaleX, cell.y * scaleY, Math.max(1, CELL_SIZE * scaleX), Math.max(1, CELL_SIZE * scaleY));
+    }
+    ctx.fillStyle = '#FFD700';
+    current.getSpawns().forEach((spawn) => {
+      ctx.fillRect(spawn.x * scaleX - 1.5, spawn.y * scaleY - 1.5, 3, 3);
+    });
+
+    // The part of the map in view
+    const offset = scene.camera.getState();
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    ctx.strokeRect(-offset.x * scaleX + 0.5, -offset.y * scaleY + 0.5, VIEWPORT_WIDTH * scaleX - 1, VIEWPORT_HEIGHT * scaleY - 1);
+  }, []);
+
+  const applyCamera = useCallback(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const offset = scene.camera.follow(centerRef.current.x, centerRef.current.y);
+    scene.world.x = offset.x;
+    scene.world.y = offset.y;
+    // Keep the centre where the camera's clamping left it so panning back is immediate
+    centerRef.current = { x: VIEWPORT_WIDTH / 2 - offset.x, y: VIEWPORT_HEIGHT / 2 - offset.y };
+    drawMinimap();
+  }, [drawMinimap]);
+
+  // Bring the scene in line with the document: one map object per cell, spawn markers and the world size
+  const redraw = useCallback(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const current = docRef.current;
+
+    if (scene.gridSize.width !== current.getWidth() || scene.gridSize.height !== current.getHeight()) {
+      scene.gridSize = { width: current.getWidth(), height: current.getHeight() };
+      drawWorldGrid(scene.grid, current.getWidth(), current.getHeight());
+      scene.camera.setWorldSize(current.getWidth(), current.getHeight());
+    }
+
+    const wanted = new Map<string, MapObject>();
+    for (const cell of current.getCells()) {
+      const id = `${cell.type}-${cell.x}-${cell.y}`;
+      wanted.set(id, { id, ...cell, width: CELL_SIZE, height: CELL_SIZE });
+    }
+    const stale = Array.from(scene.mapManager.getMapObjects().keys()).filter(id => !wanted.has(id));
+    stale.forEach(id => scene.mapManager.removeMapObject(id));
+    wanted.forEach(obj => scene.mapManager.createMapObject(obj));
+
+    scene.spawns.clear();
+    current.getSpawns().forEach((spawn) => {
+      scene.spawns.lineStyle(3, 0xFFD700, 0.9);
+      scene.spawns.drawCircle(spawn.x, spawn.y, CELL_SIZE / 2 - 6);
+      scene.spawns.moveTo(spawn.x - 6, spawn.y);
+      scene.spawns.lineTo(spawn.x + 6, spawn.y);
+      scene.spawns.moveTo(spawn.x, spawn.y - 6);
+      scene.spawns.lineTo(spawn.x, spawn.y + 6);
+    });
+
+    applyCamera();
+  }, [applyCamera]);
+
+  const undo = useCallback(() => {
+    if (docRef.current.undo()) {
+      redraw();
+      setRevision(r => r + 1);
+    }
+  }, [redraw]);
+
+  const redo = useCallback(() => {
+    if (docRef.current.redo()) {
+      redraw();
+      setRevision(r => r + 1);
+    }
+  }, [redraw]);
+
+  // A freshly opened map starts centred in view
+  useEffect(() => {
+    centerRef.current = { x: doc.getWidth() / 2, y: doc.getHeight() / 2 };
+    redraw();
+  }, [doc, redraw]);
+
+  // Autosave, so a playtest (or a reload) doesn't lose the map
+  useEffect(() => {
+    localStorage.setItem(DRAFT_KEY, serializeMap(doc.toDefinition()));
+  }, [doc, revision]);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const camera = new Camera({ viewportWidth: VIEWPORT_WIDTH, viewportHeight: VIEWPORT_HEIGHT, worldWidth: NEW_MAP_SIZE, worldHeight: NEW_MAP_SIZE });
+    const app = new PIXI.Application({ width: VIEWPORT_WIDTH, height: VIEWPORT_HEIGHT, backgroundColor: 0x2a2a2a, resolution: window.devicePixelRatio || 1, autoDensity: true });
+    const view = app.view as HTMLCanvasElement;
+    canvasRef.current.appendChild(view);
+
+    const world = new PIXI.Container();
+    world.sortableChildren = true;
+    app.stage.addChild(world);
+
+    const grid = new PIXI.Graphics();
+    grid.zIndex = -10;
+    const spawns = new PIXI.Graphics();
+    spawns.zIndex = 2;
+    const cursor = new PIXI.Graphics();
+    cursor.zIndex = 3;
+    world.addChild(grid, spawns, cursor);
+
+    sceneRef.current = { app, world, camera, mapManager: new MapManager(world), grid, spawns, cursor, gridSize: { width: 0, height: 0 } };
+    redraw();
+
+    // Painting with the left button; panning with the right or middle one, or with Space held
+    let spaceHeld = false;
+    let painting: { start: [number, number]; last: [number, number] } | null = null;
+    let panningFrom: { x: number; y: number } | null = null;
+    const heldKeys = new Set<string>();
+
+    const cellAt = (e: PointerEvent): [number, number] => {
+      const rect = view.getBoundingClientRect();
+      const point = camera.screenToWorld(
+        ((e.clientX - rect.left) * VIEWPORT_WIDTH) / rect.width,
+        ((e.clientY - rect.top) * VIEWPORT_HEIGHT) / rect.height
+      );
+      return [Math.floor(point.x / CELL_SIZE), Math.floor(point.y / CELL_SIZE)];
+    };
+
+    const drawCursor = (from: [number, number], to: [number, number]) => {
+      const color = PALETTE.find(entry => entry.brush === brushRef.current)?.color ?? '#ffffff';
+      cursor.clear();
+      cursor.lineStyle(2, new PIXI.Color(color).toNumber(), 1);
+      cursor.beginFill(0xffffff, 0.1);
+      const x = Math.min(from[0], to[0]) * CELL_SIZE;
+      const y = Math.min(from[1], to[1]) * CELL_SIZE;
+      cursor.drawRect(x, y, (Math.abs(to[0] - from[0]) + 1) * CELL_SIZE, (Math.abs(to[1] - from[1]) + 1) * CELL_SIZE);
+      cursor.endFill();
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      view.setPointerCapture(e.pointerId);
+      if (e.button !== 0 || spaceHeld) {
+        panningFrom = { x: e.clientX, y: e.clientY };
+        return;
+      }
+      const cell = cellAt(e);
+      const current = docRef.current;
+      current.beginStroke();
+      painting = { start: cell, last: cell };
+      if (toolRef.current === 'brush' && current.paint(cell[0], cell[1], brushRef.current)) redraw();
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (panningFrom) {
+        const rect = view.getBoundingClientRect();
+        centerRef.current.x -= ((e.clientX - panningFrom.x) * VIEWPORT_WIDTH) / rect.width;
+        centerRef.current.y -= ((e.clientY - panningFrom.y) * VIEWPORT_HEIGHT) / rect.height;
+        panningFrom = { x: e.clientX, y: e.clientY };
+        applyCamera();
+        return;
+      }
+      const cell = cellAt(e);
+      if (painting && toolRef.current === 'brush') {
+        const changed = cellsBetween(painting.last, cell)
+          .map(([cx, cy]) => docRef.current.paint(cx, cy, brushRef.current))
+          .some(Boolean);
+        painting.last = cell;
+        if (changed) redraw();
+      }
+      drawCursor(painting && toolRef.current === 'rect' ? painting.start : cell, cell);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      panningFrom = null;
+      if (!painting) return;
+      const current = docRef.current;
+      if (toolRef.current === 'rect') {
+        const cell = cellAt(e);
+        current.paintRect(painting.start[0], painting.start[1], cell[0], cell[1], brushRef.current);
+      }
+      painting = null;
+      current.endStroke();
+      setStatus(null);
+      redraw();
+      drawCursor(cellAt(e), cellAt(e));
+      setRevision(r => r + 1);
+    };
+
+    const handlePointerLeave = () => {
+      if (!painting) cursor.clear();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) redo(); else undo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (key === ' ') {
+        spaceHeld = true;
+        e.preventDefault();
+      } else if (key === 'b') {
+        setTool('brush');
+      } else if (key === 'r') {
+        setTool('rect');
+      } else if (PAN_KEYS[key]) {
+        heldKeys.add(key);
+        e.preventDefault();
+      } else {
+        const entry = PALETTE.find(item => item.key === key);
+        if (entry) setBrush(entry.brush);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      if (key === ' ') spaceHeld = false;
+      heldKeys.delete(key);
+    };
+
+    const panWithKeys = () => {
+      if (heldKeys.size === 0) return;
+      const distance = (PAN_SPEED * app.ticker.deltaMS) / 1000;
+      heldKeys.forEach((key) => {
+        centerRef.current.x += PAN_KEYS[key][0] * distance;
+        centerRef.current.y += PAN_KEYS[key][1] * distance;
+      });
+      applyCamera();
+    };
+
+    const preventContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    view.addEventListener('pointerdown', handlePointerDown);
+    view.addEventListener('pointermove', handlePointerMove);
+    view.addEventListener('pointerup', handlePointerUp);
+    view.addEventListener('pointerleave', handlePointerLeave);
+    view.addEventListener('contextmenu', preventContextMenu);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    app.ticker.add(panWithKeys);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      sceneRef.current = null;
+      app.destroy(true, true);
+    };
+  }, []);
+
+  const panTo = useCallback((fx: number, fy: number) => {
+    centerRef.current = { x: fx * docRef.current.getWidth(), y: fy * docRef.current.getHeight() };
+    applyCamera();
+  }, [applyCamera]);
+
+  const updateMetadata = (field: keyof MapMetadata, value: string) => {
+    doc.metadata[field] = value;
+    setRevision(r => r + 1);
+  };
+
+  const setRicochet = (value: string) => {
+    doc.ricochet = value === '' ? undefined : Number(value);
+    setRevision(r => r + 1);
+  };
+
+  const resize = (axis: 'width' | 'height', cells: number) => {
+    if (!Number.isInteger(cells) || cells < 10 || cells > 500) {
+      setStatus({ text: 'Map sides must be 10 to 500 cells', error: true });
+      return;
+    }
+    const size = cells * CELL_SIZE;
+    doc.resize(axis === 'width' ? size : doc.getWidth(), axis === 'height' ? size : doc.getHeight());
+    redraw();
+    setRevision(r => r + 1);
+  };
+
+  const newMap = () => {
+    if (!window.confirm('Discard the current map and start a new one?')) return;
+    setDoc(MapDocument.create(NEW_MAP_SIZE, NEW_MAP_SIZE));
+    setStatus(null);
+  };
+
+  const importMap = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+    try {
+      setDoc(MapDocument.fromDefinition(parseMap(await file.text(), file.name)));
+      setStatus({ text: `Opened ${file.name}`, error: false });
+    } catch (error) {
+      setStatus({ text: (error as Error).message, error: true });
+    }
+  };
+
+  const exportMap = () => {
+    try {
+      const map = doc.validate();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([serializeMap(map)], { type: 'application/json' }));
+      link.download = `${map.name}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+      setStatus({ text: `Saved ${map.name}.json`, error: false });
+    } catch (error) {
+      setStatus({ text: (error as Error).message, error: true });
+    }
+  };
+
+  // The draft is autosaved, so the browser's back button returns to it
+  const playtest = async () => {
+    try {
+      const map = doc.validate();
+      setPlaytesting(true);
+      const name = await WebSocketService.getInstance().createPlaytestMap(map);
+      window.location.href = `?map=${encodeURIComponent(name)}`;
+    } catch (error) {
+      setStatus({ text: (error as Error).message, error: true });
+      setPlaytesting(false);
+    }
+  };
+
+  const cellCount = Array.from(doc.getCells()).length;
+
+  return (
+    <div className="map-editor">
+      <div className="map-editor-toolbar">
+        <div className="map-editor-group">
+          {PALETTE.map(entry => (
+            <button
+              key={entry.brush}
+              className={brush === entry.brush ? 'active' : ''}
+              title={`${entry.label} (${entry.key})`}
+              onClick={() => setBrush(entry.brush)}
+            >
+              <span className="map-editor-swatch" style={{ backgroundColor: entry.color }} />
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        <div className="map-editor-group">
+          <button className={tool === 'brush' ? 'active' : ''} title="Brush (B)" onClick={() => setTool('brush')}>Brush</button>
+          <button className={tool === 'rect' ? 'active' : ''} title="Rectangle (R)" onClick={() => setTool('rect')}>Rectangle</button>
+          <button disabled={!doc.canUndo()} title="Undo (Ctrl+Z)" onClick={undo}>Undo</button>
+          <button disabled={!doc.canRedo()} title="Redo (Ctrl+Y)" onClick={redo}>Redo</button>
+        </div>
+        <div className="map-editor-group">
+          <button onClick={newMap}>New</button>
+          <button onClick={() => fileInputRef.current?.click()}>Import</button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={importMap} />
+          <button onClick={exportMap}>Export</button>
+          <button className="map-editor-playtest" disabled={playtesting} onClick={playtest}>
+            {playtesting ? 'Starting…' : 'Playtest'}
+          </button>
+        </div>
+      </div>
+
+      <div className="map-editor-fields">
+        <label>Name <input value={doc.metadata.name} onChange={e => updateMetadata('name', e.target.value)} /></label>
+        <label>Title <input value={doc.metadata.title} onChange={e => updateMetadata('title', e.target.value)} /></label>
+        <label>Author <input value={doc.metadata.author} onChange={e => updateMetadata('author', e.target.value)} /></label>
+        <label className="map-editor-wide">
+          Description <input value={doc.metadata.description} onChange={e => updateMetadata('description', e.target.value)} />
+        </label>
+        {(['width', 'height'] as const).map(axis => (
+          <label key={`${axis}-${axis === 'width' ? doc.getWidth() : doc.getHeight()}`}>
+            {axis === 'width' ? 'Width (cells)' : 'Height (cells)'}
+            <input
+              type="number"
+              min={10}
+              max={500}
+              defaultValue={(axis === 'width' ? doc.getWidth() : doc.getHeight()) / CELL_SIZE}
+              onBlur={e => resize(axis, Number(e.target.value))}
+              onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            />
+          </label>
+        ))}
+        <label>
+          Ricochet
+          <select value={doc.ricochet ?? ''} onChange={e => setRicochet(e.target.value)}>
+            <option value="">Server default</option>
+            {Array.from({ length: MAX_RICOCHET + 1 }, (_, bounces) => (
+              <option key={bounces} value={bounces}>{bounces === 0 ? 'Off' : `${bounces} bounce${bounces > 1 ? 's' : ''}`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div ref={canvasRef} className="map-editor-canvas" />
+
+      <div className={`map-editor-status${status?.error ? ' error' : ''}`}>
+        {status?.text ?? `${cellCount} cells · ${doc.getSpawns().length} spawn points`}
+      </div>
+      <Minimap canvasRef={minimapRef} width={MINIMAP_SIZE} height={MINIMAP_SIZE} caption={doc.metadata.title} onPan={panTo} />
+    </div>
+  );
+};
+
+export default MapEditor;
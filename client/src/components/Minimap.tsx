@@ -4,28 +4,58 @@ interface MinimapProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
   width: number;
   height: number;
+  caption?: string; // Shown above the minimap (e.g. the map name)
+  onPan?: (x: number, y: number) => void; // Click/drag target as fractions (0-1) of the world; makes the minimap interactive
 }
 
-const Minimap: React.FC<MinimapProps> = ({ canvasRef, width, height }) => {
+const Minimap: React.FC<MinimapProps> = ({ canvasRef, width, height, caption, onPan }) => {
+  const handlePointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onPan || (e.type === 'pointermove' && e.buttons !== 1)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPan((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
   return (
-    <canvas
-      ref={canvasRef}
-      width={width}
-      height={height}
-      style={{
-        position: 'fixed',
-        right: '10px',
-        bottom: '10px',
-        width: width,
-        height: height,
-        opacity: 0.8,
-        pointerEvents: 'none',
-        zIndex: 1000,
-        border: '1px solid rgba(255,255,255,0.2)',
-        borderRadius: '4px',
-        boxShadow: '0 2px 6px rgba(0,0,0,0.4)'
-      }}
-    />
+    <>
+      {caption && (
+        <div
+          style={{
+            position: 'fixed',
+            right: '10px',
+            bottom: height + 16,
+            width: width,
+            color: 'rgba(255,255,255,0.7)',
+            fontSize: '11px',
+            textAlign: 'right',
+            pointerEvents: 'none',
+            zIndex: 1000,
+          }}
+        >
+          {caption}
+        </div>
+      )}
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+        style={{
+          position: 'fixed',
+          right: '10px',
+          bottom: '10px',
+          width: width,
+          height: height,
+          opacity: 0.8,
+          pointerEvents: onPan ? 'auto' : 'none',
+          cursor: onPan ? 'crosshair' : undefined,
+          zIndex: 1000,
+          border: '1px solid rgba(255,255,255,0.2)',
+          borderRadius: '4px',
+          boxShadow: '0 2px 6px rgba(0,0,0,0.4)'
+        }}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,58 @@
+import React from 'react';
+import { SnapshotMatch } from '../../../shared/Snapshot';
+import { Team, TEAM_COLORS, TEAM_NAMES } from '../../../shared/GameMode';
+import { MatchEndPayload } from '../../../shared/Protocol';
+import './TeamScoreboard.css';
+
+interface TeamScoreboardProps {
+  match: SnapshotMatch;
+  localTeam: Team;
+  result: MatchEndPayload | null; // Outcome of the match that just ended
+}
+
+const teamColor = (team: Team) => '#' + TEAM_COLORS[team].toString(16).padStart(6, '0');
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const describeReason = ({ reason, winner }: MatchEndPayload): string | null => {
+  if (reason === 'time') return "Time's up";
+  if (reason !== 'base') return null;
+  if (winner === Team.NONE) return 'Both bases fell';
+  const loser = winner === Team.RED ? Team.BLUE : Team.RED;
+  return `${TEAM_NAMES[loser]} base destroyed`;
+};
+
+const TeamScoreboard: React.FC<TeamScoreboardProps> = ({ match, localTeam, result }) => {
+  const scores: [Team, number][] = [[Team.RED, match.t1], [Team.BLUE, match.t2]];
+
+  return (
+    <>
+      <div className="team-scoreboard">
+        {scores.map(([team, score]) => (
+          <div
+            key={team}
+            className={`team-score${team === localTeam ? ' team-score-local' : ''}`}
+            style={{ color: teamColor(team) }}
+          >
+            <span className="team-score-name">{TEAM_NAMES[team]}</span>
+            <span className="team-score-value">{score}</span>
+          </div>
+        ))}
+        {match.tl > 0 && <div className="team-scoreboard-timer">{formatTime(match.tl)}</div>}
+      </div>
+      {match.ov === 1 && result && (
+        <div className="match-end-screen">
+          <h2 style={{ color: result.winner === Team.NONE ? '#fff' : teamColor(result.winner) }}>
+            {result.winner === Team.NONE ? 'Draw' : `${TEAM_NAMES[result.winner]} team wins`}
+          </h2>
+          {describeReason(result) && <p>{describeReason(result)}</p>}
+          {result.winner !== Team.NONE && <p>{result.winner === localTeam ? 'Victory!' : 'Defeat'}</p>}
+          <p>Next match starting soon...</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TeamScoreboard;
@@ -64,6 +64,14 @@ export class Camera {
     this.config.viewportHeight = height;
   }
 
+  /**
+   * Update world size (e.g., when the server sends the room's map)
+   */
+  setWorldSize(width: number, height: number): void {
+    this.config.worldWidth = width;
+    this.config.worldHeight = height;
+  }
+
   /**
    * Get viewport size
    */
@@ -1,14 +1,14 @@
 /**
  * Command Buffer for Client-Side Prediction
- * Stores movement commands with sequential IDs for reconciliation
+ * Stores movement commands with sequential IDs for reconciliation.
+ * Each command is the input for exactly one fixed simulation step and its
+ * ID doubles as the sequence ID sent to the server.
  */
 
-export interface MovementCommand {
+import { TankInput } from '../../../shared/TankSimulation';
+
+export interface MovementCommand extends TankInput {
   commandId: number;
-  rotation: number;
-  direction?: 'forward' | 'backward';
-  left?: boolean;
-  right?: boolean;
   timestamp: number;
 }
 
@@ -19,16 +19,16 @@ export class CommandBuffer {
 
   /**
    * Add a new movement command to the buffer
-   * @returns The command ID assigned to this command
+   * @returns The stored command with its assigned ID
    */
-  addCommand(rotation: number, direction?: 'forward' | 'backward', left?: boolean, right?: boolean): number {
+  addCommand(input: TankInput): MovementCommand {
     const commandId = this.nextCommandId++;
     const command: MovementCommand = {
       commandId,
-      rotation,
-      direction,
-      left,
-      right,
+      up: input.up,
+      down: input.down,
+      left: input.left,
+      right: input.right,
       timestamp: Date.now(),
     };
 
@@ -39,7 +39,7 @@ export class CommandBuffer {
       this.commands.shift();
     }
 
-    return commandId;
+    return command;
   }
 
   /**
@@ -1,73 +1,76 @@
 /**
  * Game Simulation for Client-Side Prediction
- * Simulates tank movement locally to provide immediate feedback
+ * Runs the same fixed-timestep tank simulation as the server (see shared/TankSimulation)
+ * so predicted movement matches the authoritative result step for step
  */
 
-export interface TankState {
-  x: number;
-  y: number;
-  rotation: number;
-}
+import {
+  TankState,
+  TankParams,
+  DEFAULT_TANK_PARAMS,
+  MapCollider,
+  stepTank,
+} from '../../../shared/TankSimulation';
+import { MapObject, MapObjectType } from '../../../shared/MapObject';
+import { TankClass, TANK_CLASS_STATS, DEFAULT_TANK_CLASS } from '../../../shared/TankClass';
+import { MovementCommand } from './CommandBuffer';
 
-export interface MovementCommand {
-  commandId: number;
-  rotation: number;
-  direction?: 'forward' | 'backward';
-  left?: boolean;
-  right?: boolean;
-  timestamp: number;
-}
+export type { TankState };
 
 export class GameSimulation {
-  private readonly SPEED = 3.5 * 25 * 3.2; // Units per second (matching server)
-  private readonly ROTATION_SPEED = 0.1 * 25 * 3.6; // Rad per second (matching server)
-  private readonly WORLD_WIDTH = 4000;
-  private readonly WORLD_HEIGHT = 4000;
-  private readonly TANK_RADIUS = 20;
+  private collider = new MapCollider();
+  private params: TankParams = { ...DEFAULT_TANK_PARAMS };
+  private tankClass: TankClass = DEFAULT_TANK_CLASS;
+  private speedMultiplier = 1;
 
   /**
-   * Apply a single movement command to a tank state
+   * Use the speed and turn rate of the local tank's class
    */
-  applyCommand(state: TankState, command: MovementCommand, dt: number = 1/60): TankState {
-    const newState: TankState = {
-      x: state.x,
-      y: state.y,
-      rotation: state.rotation,
-    };
+  setTankClass(tankClass: TankClass): void {
+    this.tankClass = tankClass;
+    this.updateParams();
+  }
 
-    // Apply rotation
-    if (command.left) {
-      newState.rotation -= this.ROTATION_SPEED * dt;
-    }
-    if (command.right) {
-      newState.rotation += this.ROTATION_SPEED * dt;
-    }
-    
-    // Normalize rotation
-    while (newState.rotation < 0) newState.rotation += Math.PI * 2;
-    while (newState.rotation >= Math.PI * 2) newState.rotation -= Math.PI * 2;
+  /**
+   * Set the movement speed multiplier from active power-ups (e.g. speed boost)
+   */
+  setSpeedMultiplier(multiplier: number): void {
+    this.speedMultiplier = multiplier;
+    this.updateParams();
+  }
 
-    // Apply movement if direction is provided
-    if (command.direction) {
-      const dirX = Math.sin(newState.rotation);
-      const dirY = -Math.cos(newState.rotation);
+  private updateParams(): void {
+    const { speed, rotationSpeed } = TANK_CLASS_STATS[this.tankClass];
+    this.params = { ...DEFAULT_TANK_PARAMS, speed: speed * this.speedMultiplier, rotationSpeed };
+  }
 
-      const moveDist = this.SPEED * dt;
+  /**
+   * Set the world bounds of the room's map (before its terrain arrives)
+   */
+  setWorldSize(width: number, height: number): void {
+    this.collider = new MapCollider(width, height);
+  }
 
-      if (command.direction === 'forward') {
-        newState.x += dirX * moveDist;
-        newState.y += dirY * moveDist;
-      } else {
-        newState.x -= dirX * moveDist;
-        newState.y -= dirY * moveDist;
-      }
+  /**
+   * Replace the terrain used for collision prediction
+   */
+  setMapObjects(objects: MapObject[]): void {
+    this.collider.setObjects(objects);
+  }
 
-      // Clamp to world bounds
-      newState.x = Math.max(this.TANK_RADIUS, Math.min(newState.x, this.WORLD_WIDTH - this.TANK_RADIUS));
-      newState.y = Math.max(this.TANK_RADIUS, Math.min(newState.y, this.WORLD_HEIGHT - this.TANK_RADIUS));
-    }
+  updateMapObject(data: { objectId: string; destroyed: boolean; type?: string; damage?: number }): void {
+    this.collider.updateObject(data.objectId, {
+      destroyed: data.destroyed,
+      ...(data.type ? { type: data.type as MapObjectType } : {}),
+      ...(data.damage !== undefined ? { damage: data.damage } : {}),
+    });
+  }
 
-    return newState;
+  /**
+   * Apply a single movement command as one fixed simulation step
+   */
+  applyCommand(state: TankState, command: MovementCommand): TankState {
+    return stepTank(state, command, this.collider, this.params);
   }
 
   /**
@@ -80,40 +83,26 @@ export class GameSimulation {
   ): TankState {
     let currentState = { ...startState };
 
-    // When re-simulating, we don't have the original dt easily if it was variable.
-    // But since server ticks at 25Hz, we can assume each command represents one tick (40ms).
-    const SERVER_TICK_DT = 1 / 25;
-
     for (const command of commands) {
-      currentState = this.applyCommand(currentState, command, SERVER_TICK_DT);
+      currentState = this.applyCommand(currentState, command);
     }
 
     return currentState;
   }
 
   /**
-   * Calculate rotation change based on input keys
+   * Blend two consecutive simulation states for rendering between fixed steps
    */
-  calculateRotation(
-    currentRotation: number,
-    leftPressed: boolean,
-    rightPressed: boolean,
-    dt: number = 1/60
-  ): number {
-    let newRotation = currentRotation;
-
-    if (leftPressed) {
-      newRotation -= this.ROTATION_SPEED * dt;
-    }
-    if (rightPressed) {
-      newRotation += this.ROTATION_SPEED * dt;
-    }
-
-    // Normalize rotation to [0, 2π)
-    while (newRotation < 0) newRotation += Math.PI * 2;
-    while (newRotation >= Math.PI * 2) newRotation -= Math.PI * 2;
-
-    return newRotation;
+  interpolateState(previous: TankState, current: TankState, alpha: number): TankState {
+    let rotationDiff = current.rotation - previous.rotation;
+    // Take the shortest way around
+    if (rotationDiff > Math.PI) rotationDiff -= Math.PI * 2;
+    if (rotationDiff < -Math.PI) rotationDiff += Math.PI * 2;
+
+    return {
+      x: previous.x + (current.x - previous.x) * alpha,
+      y: previous.y + (current.y - previous.y) * alpha,
+      rotation: previous.rotation + rotationDiff * alpha,
+    };
   }
 }
-
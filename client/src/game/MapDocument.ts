@@ -0,0 +1,322 @@
+/**
+ * Map Document
+ * The map open in the editor: terrain cells, spawn points and metadata, with
+ * undo/redo. Converts to and from the server's map file format.
+ */
+
+import { MapObject, MapObjectType, CELL_SIZE, blocksTanks, pointInMapObject } from '../../../shared/MapObject';
+import {
+  MapDefinition,
+  MapSpawn,
+  MapTile,
+  TileType,
+  MAP_FORMAT,
+  MAP_FORMAT_VERSION,
+  validateMap,
+} from '../../../shared/MapFormat';
+
+// What the palette paints: terrain, a spawn point, or nothing (the eraser)
+export type EditorBrush = TileType | 'spawn' | 'erase';
+
+// One cell of terrain; imported maps may place cells off the editor's grid
+export interface EditorCell {
+  type: TileType;
+  x: number; // Top-left corner (world units)
+  y: number;
+}
+
+export interface MapMetadata {
+  name: string;
+  title: string;
+  author: string;
+  description: string;
+}
+
+interface DocumentState {
+  width: number;
+  height: number;
+  cells: Map<string, EditorCell>;
+  spawns: MapSpawn[];
+}
+
+const MAX_HISTORY = 100; // Undo steps kept
+
+// Cells are stored by the grid square their top-left corner falls in
+function bucketKey(cx: number, cy: number): string {
+  return `${cx},${cy}`;
+}
+
+function cellArea(cell: EditorCell): MapObject {
+  return { id: '', type: cell.type, x: cell.x, y: cell.y, width: CELL_SIZE, height: CELL_SIZE };
+}
+
+export class MapDocument {
+  metadata: MapMetadata;
+  ricochet: number | undefined; // Bullet bounces off concrete; unset for the server's setting
+  private state: DocumentState;
+  private undoStack: DocumentState[] = [];
+  private redoStack: DocumentState[] = [];
+  private strokeStart: DocumentState | null = null;
+  private revision = 0; // Bumped on every change so views know to redraw
+
+  private constructor(state: DocumentState, metadata: MapMetadata) {
+    this.state = state;
+    this.metadata = metadata;
+  }
+
+  /**
+   * A blank map: a concrete border and one spawn point in the middle
+   */
+  static create(width: number, height: number): MapDocument {
+    const doc = new MapDocument(
+      { width, height, cells: new Map(), spawns: [] },
+      { name: 'untitled', title: 'Untitled', author: '', description: '' }
+    );
+    const columns = width / CELL_SIZE;
+    const rows = height / CELL_SIZE;
+    for (let cx = 0; cx < columns; cx++) {
+      for (let cy = 0; cy < rows; cy++) {
+        if (cx === 0 || cy === 0 || cx === columns - 1 || cy === rows - 1) {
+          doc.setCell({ type: MapObjectType.CONCRETE_WALL, x: cx * CELL_SIZE, y: cy * CELL_SIZE });
+        }
+      }
+    }
+    doc.state.spawns.push({ x: (Math.floor(columns / 2) + 0.5) * CELL_SIZE, y: (Math.floor(rows / 2) + 0.5) * CELL_SIZE });
+    return doc;
+  }
+
+  /**
+   * Open a map file's contents; tiles are split into single cells
+   */
+  static fromDefinition(map: MapDefinition): MapDocument {
+    const doc = new MapDocument(
+      { width: map.width, height: map.height, cells: new Map(), spawns: map.spawns.map(spawn => ({ ...spawn })) },
+      { name: map.name, title: map.title, author: map.author ?? '', description: map.description ?? '' }
+    );
+    doc.ricochet = map.ricochet;
+    map.tiles.forEach((tile) => {
+      for (let dx = 0; dx < (tile.w ?? 1); dx++) {
+        for (let dy = 0; dy < (tile.h ?? 1); dy++) {
+          doc.setCell({ type: tile.type, x: tile.x + dx * CELL_SIZE, y: tile.y + dy * CELL_SIZE });
+        }
+      }
+    });
+    return doc;
+  }
+
+  getWidth(): number {
+    return this.state.width;
+  }
+
+  getHeight(): number {
+    return this.state.height;
+  }
+
+  getCells(): IterableIterator<EditorCell> {
+    return this.state.cells.values();
+  }
+
+  getSpawns(): readonly MapSpawn[] {
+    return this.state.spawns;
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * The map in file form, merging horizontal runs of equal cells into one tile.
+   * Not validated: drafts may be unplayable (e.g. without spawn points).
+   */
+  toDefinition(): MapDefinition {
+    const cells = Array.from(this.state.cells.values()).sort((a, b) => a.y - b.y || a.x - b.x);
+    const tiles: MapTile[] = [];
+    let run: MapTile | null = null;
+    cells.forEach((cell) => {
+      if (run && run.type === cell.type && run.y === cell.y && run.x + (run.w ?? 1) * CELL_SIZE === cell.x) {
+        run.w = (run.w ?? 1) + 1;
+        return;
+      }
+      run = { type: cell.type, x: cell.x, y: cell.y };
+      tiles.push(run);
+    });
+
+    const { name, title, author, description } = this.metadata;
+    return {
+      format: MAP_FORMAT,
+      version: MAP_FORMAT_VERSION,
+      name,
+      title,
+      ...(author ? { author } : {}),
+      ...(description ? { description } : {}),
+      width: this.state.width,
+      height: this.state.height,
+      ...(this.ricochet !== undefined ? { ricochet: this.ricochet } : {}),
+      spawns: this.state.spawns.map(spawn => ({ ...spawn })),
+      tiles,
+    };
+  }
+
+  /**
+   * The map in file form, checked the way the server checks map files
+   * @throws Error describing the first problem found
+   */
+  validate(): MapDefinition {
+    return validateMap(this.toDefinition(), `${this.metadata.name || 'map'}.json`);
+  }
+
+  /**
+   * Start a stroke: everything painted until endStroke is undone in one step
+   */
+  beginStroke() {
+    this.strokeStart = this.cloneState();
+  }
+
+  endStroke() {
+    if (!this.strokeStart) return;
+    const before = this.strokeStart;
+    this.strokeStart = null;
+    if (!this.sameState(before)) this.pushUndo(before);
+  }
+
+  /**
+   * Paint one grid cell. Terrain replaces whatever overlaps the cell (and
+   * spawn points if it blocks tanks); a spawn point clears blocking terrain.
+   * @returns Whether anything changed
+   */
+  paint(cx: number, cy: number, brush: EditorBrush): boolean {
+    if (cx < 0 || cy < 0 || (cx + 1) * CELL_SIZE > this.state.width || (cy + 1) * CELL_SIZE > this.state.height) {
+      return false;
+    }
+    const area: MapObject = { id: '', type: MapObjectType.CONCRETE_WALL, x: cx * CELL_SIZE, y: cy * CELL_SIZE, width: CELL_SIZE, height: CELL_SIZE };
+    const existing = this.state.cells.get(bucketKey(cx, cy));
+    if (brush !== 'spawn' && brush !== 'erase' && existing?.type === brush && existing.x === area.x && existing.y === area.y) {
+      return false;
+    }
+
+    let changed = false;
+    const spawnsInside = this.state.spawns.filter(spawn => pointInMapObject(spawn.x, spawn.y, area));
+    const blocking = brush !== 'spawn' && brush !== 'erase' && blocksTanks({ ...area, type: brush });
+    if ((brush === 'erase' || blocking) && spawnsInside.length > 0) {
+      this.state.spawns = this.state.spawns.filter(spawn => !spawnsInside.includes(spawn));
+      changed = true;
+    }
+
+    this.overlapping(area).forEach(([key, cell]) => {
+      if (brush === 'spawn' && !blocksTanks(cellArea(cell))) return;
+      this.state.cells.delete(key);
+      changed = true;
+    });
+
+    if (brush === 'spawn') {
+      if (spawnsInside.length === 0) {
+        this.state.spawns.push({ x: area.x + CELL_SIZE / 2, y: area.y + CELL_SIZE / 2 });
+        changed = true;
+      }
+    } else if (brush !== 'erase') {
+      this.setCell({ type: brush, x: area.x, y: area.y });
+      changed = true;
+    }
+
+    if (changed) this.revision++;
+    return changed;
+  }
+
+  /**
+   * Paint every cell of the rectangle between two grid cells (inclusive)
+   */
+  paintRect(cx0: number, cy0: number, cx1: number, cy1: number, brush: EditorBrush): boolean {
+    let changed = false;
+    for (let cx = Math.min(cx0, cx1); cx <= Math.max(cx0, cx1); cx++) {
+      for (let cy = Math.min(cy0, cy1); cy <= Math.max(cy0, cy1); cy++) {
+        changed = this.paint(cx, cy, brush) || changed;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Change the world size; terrain and spawn points outside it are dropped
+   */
+  resize(width: number, height: number) {
+    if (width === this.state.width && height === this.state.height) return;
+    this.pushUndo(this.cloneState());
+    this.state.width = width;
+    this.state.height = height;
+    this.state.cells.forEach((cell, key) => {
+      if (cell.x + CELL_SIZE > width || cell.y + CELL_SIZE > height) this.state.cells.delete(key);
+    });
+    this.state.spawns = this.state.spawns.filter(spawn => spawn.x < width && spawn.y < height);
+    this.revision++;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undo(): boolean {
+    const previous = this.undoStack.pop();
+    if (!previous) return false;
+    this.redoStack.push(this.state);
+    this.state = previous;
+    this.revision++;
+    return true;
+  }
+
+  redo(): boolean {
+    const next = this.redoStack.pop();
+    if (!next) return false;
+    this.undoStack.push(this.state);
+    this.state = next;
+    this.revision++;
+    return true;
+  }
+
+  private setCell(cell: EditorCell) {
+    this.state.cells.set(bucketKey(Math.floor(cell.x / CELL_SIZE), Math.floor(cell.y / CELL_SIZE)), cell);
+  }
+
+  /**
+   * Cells overlapping an area one grid cell in size; only the area's own
+   * bucket and the three before it can hold one
+   */
+  private overlapping(area: MapObject): [string, EditorCell][] {
+    const cx = area.x / CELL_SIZE;
+    const cy = area.y / CELL_SIZE;
+    const found: [string, EditorCell][] = [];
+    for (let bx = cx - 1; bx <= cx; bx++) {
+      for (let by = cy - 1; by <= cy; by++) {
+        const key = bucketKey(bx, by);
+        const cell = this.state.cells.get(key);
+        if (cell && cell.x < area.x + CELL_SIZE && area.x < cell.x + CELL_SIZE &&
+            cell.y < area.y + CELL_SIZE && area.y < cell.y + CELL_SIZE) {
+          found.push([key, cell]);
+        }
+      }
+    }
+    return found;
+  }
+
+  private cloneState(): DocumentState {
+    return { ...this.state, cells: new Map(this.state.cells), spawns: [...this.state.spawns] };
+  }
+
+  private sameState(other: DocumentState): boolean {
+    if (other.width !== this.state.width || other.height !== this.state.height) return false;
+    if (other.cells.size !== this.state.cells.size || other.spawns.length !== this.state.spawns.length) return false;
+    for (const [key, cell] of other.cells) {
+      if (this.state.cells.get(key) !== cell) return false;
+    }
+    return other.spawns.every((spawn, i) => spawn === this.state.spawns[i]);
+  }
+
+  private pushUndo(state: DocumentState) {
+    this.undoStack.push(state);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Power-up definitions shared with the server's PowerUp module
+ */
+
+export type PowerUpType = 'star' | 'shield' | 'speed' | 'bomb' | 'shovel' | 'extra_life' | 'shotgun' | 'heavy' | 'mines';
+
+// Bit flags of the player snapshot `fx` field (matching server)
+export const EFFECT_FLAGS = {
+  star: 1,
+  shield: 2,
+  speed: 4,
+} as const;
+
+export const SPEED_BOOST_MULTIPLIER = 1.5; // Matching server
+export const STAR_FIRE_RATE_MULTIPLIER = 2; // Matching server
+
+export const POWER_UP_COLORS: Record<PowerUpType, number> = {
+  star: 0xFFD700,
+  shield: 0x66CCFF,
+  speed: 0xFFFF66,
+  bomb: 0xFF4444,
+  shovel: 0xC0C0C0,
+  extra_life: 0x44FF44,
+  shotgun: 0xFF9933,
+  heavy: 0xCC6633,
+  mines: 0x999966,
+};
+
+export const POWER_UP_LABELS: Record<PowerUpType, string> = {
+  star: '★',
+  shield: 'S',
+  speed: '⚡',
+  bomb: 'B',
+  shovel: 'W',
+  extra_life: '+1',
+  shotgun: 'SG',
+  heavy: 'H',
+  mines: 'M',
+};
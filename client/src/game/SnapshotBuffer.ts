@@ -0,0 +1,36 @@
+/**
+ * Snapshot Buffer for Delta Decoding
+ * Keeps the most recent full snapshots so delta snapshots from the server can be
+ * applied to the baseline tick they were encoded against
+ */
+
+import { Snapshot, DeltaSnapshot, applyDelta } from '../../../shared/Snapshot';
+
+export class SnapshotBuffer {
+  private snapshots = new Map<number, Snapshot>(); // Tick -> full snapshot
+  private readonly MAX_SNAPSHOTS = 64; // Matches the server's baseline history
+
+  /**
+   * Rebuild and store the full snapshot for a delta
+   * @returns null if the delta's baseline is no longer available
+   */
+  apply(delta: DeltaSnapshot): Snapshot | null {
+    let base: Snapshot | undefined;
+    if (delta.bt !== undefined) {
+      base = this.snapshots.get(delta.bt);
+      if (!base) return null;
+    }
+
+    const snapshot = applyDelta(base, delta);
+    this.snapshots.set(snapshot.t, snapshot);
+    if (this.snapshots.size > this.MAX_SNAPSHOTS) {
+      const oldest = this.snapshots.keys().next().value as number;
+      this.snapshots.delete(oldest);
+    }
+    return snapshot;
+  }
+
+  clear(): void {
+    this.snapshots.clear();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Weapon definitions shared with the server's Weapon module
+ */
+
+export type WeaponType = 'cannon' | 'shotgun' | 'heavy' | 'mine';
+
+export const WEAPON_NAMES: Record<WeaponType, string> = {
+  cannon: 'Cannon',
+  shotgun: 'Shotgun',
+  heavy: 'Heavy shell',
+  mine: 'Mines',
+};
+
+// Multiple of the tank's fire cooldown between shots (matching server)
+export const WEAPON_COOLDOWNS: Record<WeaponType, number> = {
+  cannon: 1,
+  shotgun: 1.6,
+  heavy: 2.5,
+  mine: 2,
+};
@@ -0,0 +1,11 @@
+import * as PIXI from 'pixi.js';
+
+/**
+ * Draw the background grid of map cells across the whole world
+ */
+export function drawWorldGrid(grid: PIXI.Graphics, width: number, height: number) {
+  grid.clear();
+  grid.lineStyle(1, 0x555555, 0.4);
+  for (let x = 0; x <= width; x += 40) { grid.moveTo(x + 0.5, 0); grid.lineTo(x + 0.5, height); }
+  for (let y = 0; y <= height; y += 40) { grid.moveTo(0, y + 0.5); grid.lineTo(width, y + 0.5); }
+}
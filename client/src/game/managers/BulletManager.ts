@@ -1,9 +1,20 @@
 import * as PIXI from 'pixi.js';
 import { Bullet } from '../../types/game';
+import { WeaponType } from '../Weapons';
+
+// A short-lived flash: a bullet clash or an explosion
+interface Spark {
+  sprite: PIXI.Graphics;
+  age: number; // Seconds since it appeared
+  duration: number; // Seconds
+}
 
 export class BulletManager {
   private bullets: Map<string, Bullet>;
+  private sparks: Spark[] = [];
   private world: PIXI.Container;
+  private readonly SPARK_DURATION = 0.25; // Seconds
+  private readonly EXPLOSION_DURATION = 0.4;
 
   constructor(world: PIXI.Container) {
     this.bullets = new Map();
@@ -14,16 +25,38 @@ export class BulletManager {
     return this.bullets;
   }
 
-  createBullet(id: string, x: number, y: number, color: number, playerId: string, direction: { x: number; y: number }, speed: number) {
+  createBullet(id: string, x: number, y: number, color: number, playerId: string, direction: { x: number; y: number }, speed: number, weapon: WeaponType = 'cannon') {
     if (this.bullets.has(id)) return;
 
     const sprite = new PIXI.Graphics();
-    sprite.beginFill(color);
-    sprite.drawCircle(0, 0, 4);
+    switch (weapon) {
+      case 'shotgun':
+        sprite.beginFill(0xFFDD88);
+        sprite.drawCircle(0, 0, 2.5);
+        break;
+      case 'heavy':
+        sprite.lineStyle(2, 0x552200);
+        sprite.beginFill(0xFF8800);
+        sprite.drawCircle(0, 0, 7);
+        break;
+      case 'mine':
+        sprite.lineStyle(2, 0x222222);
+        sprite.beginFill(0x555544);
+        sprite.drawCircle(0, 0, 9);
+        sprite.endFill();
+        sprite.lineStyle(0);
+        sprite.beginFill(0xFF3333);
+        sprite.drawCircle(0, 0, 3);
+        break;
+      default:
+        sprite.beginFill(color);
+        sprite.drawCircle(0, 0, 4);
+    }
     sprite.endFill();
     sprite.x = x;
     sprite.y = y;
-    sprite.zIndex = 2;
+    // Mines lie on the ground, under tanks and foliage
+    sprite.zIndex = weapon === 'mine' ? 0.4 : 2;
     this.world.addChild(sprite);
 
     this.bullets.set(id, {
@@ -31,7 +64,7 @@ export class BulletManager {
       id,
       playerId,
       direction,
-      speed: speed || 5,
+      speed: speed ?? 5,
     });
   }
 
@@ -39,14 +72,70 @@ export class BulletManager {
     const bullet = this.bullets.get(id);
     if (bullet) {
       this.world.removeChild(bullet.sprite);
+      bullet.sprite.destroy();
       this.bullets.delete(id);
     }
   }
 
+  /**
+   * Flash where two bullets cancelled each other out
+   */
+  createSpark(x: number, y: number) {
+    const sprite = new PIXI.Graphics();
+    sprite.lineStyle(2, 0xffe066);
+    for (let i = 0; i < 8; i++) {
+      const angle = i * Math.PI / 4;
+      const length = i % 2 === 0 ? 10 : 6;
+      sprite.moveTo(Math.cos(angle) * 3, Math.sin(angle) * 3);
+      sprite.lineTo(Math.cos(angle) * length, Math.sin(angle) * length);
+    }
+    sprite.beginFill(0xffffff);
+    sprite.lineStyle(0);
+    sprite.drawCircle(0, 0, 3);
+    sprite.endFill();
+    sprite.x = x;
+    sprite.y = y;
+    sprite.zIndex = 3;
+    this.world.addChild(sprite);
+    this.sparks.push({ sprite, age: 0, duration: this.SPARK_DURATION });
+  }
+
+  /**
+   * Blast of an explosive shell or mine, covering its splash radius
+   */
+  createExplosion(x: number, y: number, radius: number) {
+    const sprite = new PIXI.Graphics();
+    sprite.beginFill(0xFF6600, 0.5);
+    sprite.drawCircle(0, 0, radius / 2);
+    sprite.endFill();
+    sprite.beginFill(0xFFDD44, 0.8);
+    sprite.drawCircle(0, 0, radius / 4);
+    sprite.endFill();
+    sprite.x = x;
+    sprite.y = y;
+    sprite.zIndex = 3;
+    this.world.addChild(sprite);
+    this.sparks.push({ sprite, age: 0, duration: this.EXPLOSION_DURATION });
+  }
+
   updateBullets(dt: number) {
     this.bullets.forEach((b) => {
       b.sprite.x += b.direction.x * b.speed * dt;
       b.sprite.y += b.direction.y * b.speed * dt;
     });
+
+    // Sparks and explosions grow and fade out
+    this.sparks = this.sparks.filter((spark) => {
+      spark.age += dt;
+      if (spark.age >= spark.duration) {
+        this.world.removeChild(spark.sprite);
+        spark.sprite.destroy();
+        return false;
+      }
+      const progress = spark.age / spark.duration;
+      spark.sprite.scale.set(1 + progress);
+      spark.sprite.alpha = 1 - progress;
+      return true;
+    });
   }
 }
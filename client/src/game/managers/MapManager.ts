@@ -1,11 +1,15 @@
 import * as PIXI from 'pixi.js';
+import { Team, TEAM_COLORS } from '../../../../shared/GameMode';
+import { MapObject, MapObjectType, BRICK_QUARTERS } from '../../../../shared/MapObject';
 
 export class MapManager {
   private mapObjects: Map<string, PIXI.Graphics>;
+  private objectData: Map<string, MapObject>;
   private world: PIXI.Container;
 
   constructor(world: PIXI.Container) {
     this.mapObjects = new Map();
+    this.objectData = new Map();
     this.world = world;
   }
 
@@ -13,32 +17,68 @@ export class MapManager {
     return this.mapObjects;
   }
 
-  createMapObject(obj: any) {
+  getObjectType(objId: string): string | undefined {
+    return this.objectData.get(objId)?.type;
+  }
+
+  getObjectData(objId: string): MapObject | undefined {
+    return this.objectData.get(objId);
+  }
+
+  createMapObject(obj: MapObject) {
     if (this.mapObjects.has(obj.id)) {
       return;
     }
+    this.objectData.set(obj.id, { ...obj });
+
+    // Destroyed terrain has no sprite until it is rebuilt; a destroyed base shows rubble
+    if (obj.destroyed && obj.type !== MapObjectType.BASE) {
+      return;
+    }
 
     const sprite = new PIXI.Graphics();
     sprite.x = obj.x;
     sprite.y = obj.y;
+    this.drawMapObject(sprite, obj);
+
+    this.world.addChild(sprite);
+    this.mapObjects.set(obj.id, sprite);
+  }
+
+  removeMapObject(objId: string) {
+    this.mapObjects.get(objId)?.destroy();
+    this.mapObjects.delete(objId);
+    this.objectData.delete(objId);
+  }
+
+  private drawMapObject(sprite: PIXI.Graphics, obj: MapObject) {
+    sprite.clear();
     sprite.zIndex = -5;
 
     switch (obj.type) {
-      case 'brick_wall':
+      case MapObjectType.BRICK_WALL:
         if (!obj.destroyed) {
-          sprite.beginFill(0x8B4513);
-          sprite.drawRect(0, 0, obj.width, obj.height);
-          sprite.endFill();
-          sprite.lineStyle(1, 0x654321, 0.5);
-          sprite.moveTo(obj.width / 2, 0);
-          sprite.lineTo(obj.width / 2, obj.height);
-          sprite.moveTo(0, obj.height / 2);
-          sprite.lineTo(obj.width, obj.height / 2);
-          sprite.lineStyle(0);
+          // Only the quarters still standing, each with mortar along its inner edges
+          const w = obj.width / 2;
+          const h = obj.height / 2;
+          for (let quarter = 0; quarter < BRICK_QUARTERS; quarter++) {
+            if ((obj.damage ?? 0) & (1 << quarter)) continue;
+            const qx = (quarter % 2) * w;
+            const qy = Math.floor(quarter / 2) * h;
+            sprite.beginFill(0x8B4513);
+            sprite.drawRect(qx, qy, w, h);
+            sprite.endFill();
+            sprite.lineStyle(1, 0x654321, 0.5);
+            sprite.moveTo(w, qy);
+            sprite.lineTo(w, qy + h);
+            sprite.moveTo(qx, h);
+            sprite.lineTo(qx + w, h);
+            sprite.lineStyle(0);
+          }
         }
         break;
 
-      case 'concrete_wall':
+      case MapObjectType.CONCRETE_WALL:
         sprite.beginFill(0x808080);
         sprite.drawRect(0, 0, obj.width, obj.height);
         sprite.endFill();
@@ -50,7 +90,41 @@ export class MapManager {
         sprite.lineStyle(0);
         break;
 
-      case 'water':
+      case MapObjectType.STEEL:
+        // Riveted plates with a bevel
+        sprite.beginFill(0xC8D2DC);
+        sprite.drawRect(0, 0, obj.width, obj.height);
+        sprite.endFill();
+        sprite.beginFill(0x9AA5B1);
+        sprite.drawRect(obj.width * 0.2, obj.height * 0.2, obj.width * 0.6, obj.height * 0.6);
+        sprite.endFill();
+        sprite.lineStyle(2, 0xFFFFFF, 0.6);
+        sprite.moveTo(0, obj.height);
+        sprite.lineTo(0, 0);
+        sprite.lineTo(obj.width, 0);
+        sprite.lineStyle(0);
+        sprite.beginFill(0x6E7883);
+        [[0.1, 0.1], [0.9, 0.1], [0.1, 0.9], [0.9, 0.9]].forEach(([fx, fy]) => {
+          sprite.drawCircle(obj.width * fx, obj.height * fy, 2);
+        });
+        sprite.endFill();
+        break;
+
+      case MapObjectType.ICE:
+        sprite.beginFill(0xBEE6FF);
+        sprite.drawRect(0, 0, obj.width, obj.height);
+        sprite.endFill();
+        sprite.lineStyle(1, 0xFFFFFF, 0.7);
+        for (let i = 1; i <= 3; i++) {
+          const offset = (obj.width / 4) * i;
+          sprite.moveTo(offset, 0);
+          sprite.lineTo(0, offset);
+        }
+        sprite.lineStyle(0);
+        sprite.zIndex = -6; // Floor: under every other map object
+        break;
+
+      case MapObjectType.WATER:
         sprite.beginFill(0x4169E1);
         sprite.drawRect(0, 0, obj.width, obj.height);
         sprite.endFill();
@@ -66,7 +140,7 @@ export class MapManager {
         sprite.lineStyle(0);
         break;
 
-      case 'tree':
+      case MapObjectType.TREE:
         sprite.beginFill(0x228B22);
         sprite.drawCircle(obj.width / 2, obj.height / 2, obj.width / 2 - 2);
         sprite.endFill();
@@ -75,29 +149,87 @@ export class MapManager {
         sprite.endFill();
         sprite.zIndex = 0.5;
         break;
+
+      case MapObjectType.BUSH:
+        // Low clumps of leaves; like trees they are drawn over tanks
+        sprite.beginFill(0x6B8E23);
+        [[0.3, 0.35], [0.7, 0.35], [0.5, 0.7], [0.2, 0.75], [0.8, 0.75]].forEach(([fx, fy]) => {
+          sprite.drawCircle(obj.width * fx, obj.height * fy, obj.width * 0.22);
+        });
+        sprite.endFill();
+        sprite.zIndex = 0.5;
+        break;
+
+      case MapObjectType.BASE: {
+        // An eagle emblem in the owning team's color; rubble once destroyed
+        const w = obj.width;
+        const h = obj.height;
+        sprite.beginFill(0x202020);
+        sprite.drawRect(0, 0, w, h);
+        sprite.endFill();
+        if (obj.destroyed) {
+          sprite.beginFill(0x555555);
+          sprite.drawPolygon([w * 0.15, h * 0.85, w * 0.35, h * 0.45, w * 0.5, h * 0.7, w * 0.7, h * 0.35, w * 0.85, h * 0.85]);
+          sprite.endFill();
+          break;
+        }
+        const color = TEAM_COLORS[(obj.team ?? Team.NONE) as Team];
+        sprite.beginFill(color);
+        // Spread wings, body and head
+        sprite.drawPolygon([w * 0.1, h * 0.3, w * 0.5, h * 0.55, w * 0.9, h * 0.3, w * 0.8, h * 0.6, w * 0.5, h * 0.75, w * 0.2, h * 0.6]);
+        sprite.drawRect(w * 0.42, h * 0.35, w * 0.16, h * 0.5);
+        sprite.drawCircle(w * 0.5, h * 0.25, w * 0.1);
+        sprite.endFill();
+        sprite.lineStyle(2, color, 0.8);
+        sprite.drawRect(1, 1, w - 2, h - 2);
+        sprite.lineStyle(0);
+        break;
+      }
     }
+  }
 
-    if (obj.type === 'brick_wall' && obj.destroyed) {
+  /**
+   * Apply a map-update from the server: walls can be destroyed, chipped, rebuilt or change type
+   */
+  updateMapObject(data: { objectId: string; destroyed: boolean; type?: string; damage?: number }) {
+    const obj = this.objectData.get(data.objectId);
+    if (!obj) return;
+
+    const typeChanged = data.type !== undefined && data.type !== obj.type;
+    const damageChanged = data.damage !== undefined && data.damage !== (obj.damage ?? 0);
+    obj.destroyed = data.destroyed;
+    if (data.type !== undefined) obj.type = data.type as MapObjectType;
+    if (data.damage !== undefined) obj.damage = data.damage;
+
+    const sprite = this.mapObjects.get(data.objectId);
+    if (!sprite) {
+      if (!data.destroyed) {
+        this.objectData.delete(data.objectId);
+        this.createMapObject(obj);
+      }
       return;
     }
 
-    this.world.addChild(sprite);
-    this.mapObjects.set(obj.id, sprite);
-  }
+    // A destroyed base stays on the map as rubble
+    if (obj.type === MapObjectType.BASE) {
+      this.drawMapObject(sprite, obj);
+      return;
+    }
 
-  updateMapObject(objId: string, destroyed: boolean) {
-    const sprite = this.mapObjects.get(objId);
-    if (sprite) {
-      if (destroyed) {
-        sprite.visible = false;
-      }
+    if (typeChanged || damageChanged) {
+      this.drawMapObject(sprite, obj);
     }
+    sprite.visible = !data.destroyed;
   }
 
+  /**
+   * Whether a point is hidden under a tree or bush
+   */
   isUnderTree(x: number, y: number): boolean {
     let underTree = false;
     this.mapObjects.forEach((treeSprite, objId) => {
-      if (objId.startsWith('tree') && treeSprite.visible) {
+      const type = this.objectData.get(objId)?.type;
+      if ((type === 'tree' || type === 'bush') && treeSprite.visible) {
         const treeBounds = treeSprite.getBounds();
         if (x >= treeBounds.x && x < treeBounds.x + treeBounds.width &&
             y >= treeBounds.y && y < treeBounds.y + treeBounds.height) {
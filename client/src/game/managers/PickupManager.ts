@@ -0,0 +1,95 @@
+import * as PIXI from 'pixi.js';
+import { Pickup } from '../../types/game';
+import { PowerUpType, POWER_UP_COLORS, POWER_UP_LABELS } from '../PowerUps';
+import { SnapshotPickup } from '../../../../shared/Snapshot';
+
+export class PickupManager {
+  private pickups: Map<string, Pickup>;
+  private world: PIXI.Container;
+  private readonly BLINK_THRESHOLD = 3000; // Start blinking when less than 3s remain
+
+  constructor(world: PIXI.Container) {
+    this.pickups = new Map();
+    this.world = world;
+  }
+
+  getPickups() {
+    return this.pickups;
+  }
+
+  createPickup(id: string, type: PowerUpType, x: number, y: number, expiresIn: number) {
+    if (this.pickups.has(id)) return;
+
+    const sprite = new PIXI.Container();
+    sprite.x = x;
+    sprite.y = y;
+    sprite.zIndex = 0.8;
+
+    const background = new PIXI.Graphics();
+    background.lineStyle(2, 0xFFFFFF, 0.8);
+    background.beginFill(POWER_UP_COLORS[type] ?? 0xFFFFFF, 0.85);
+    background.drawRoundedRect(-14, -14, 28, 28, 6);
+    background.endFill();
+    sprite.addChild(background);
+
+    const label = new PIXI.Text(POWER_UP_LABELS[type] ?? '?', {
+      fontSize: 14,
+      fontWeight: 'bold',
+      fill: 0x000000,
+    });
+    label.anchor.set(0.5);
+    sprite.addChild(label);
+
+    this.world.addChild(sprite);
+    this.pickups.set(id, {
+      sprite,
+      id,
+      type,
+      expiresAt: performance.now() + expiresIn,
+    });
+  }
+
+  removePickup(id: string) {
+    const pickup = this.pickups.get(id);
+    if (pickup) {
+      this.world.removeChild(pickup.sprite);
+      pickup.sprite.destroy({ children: true });
+      this.pickups.delete(id);
+    }
+  }
+
+  /**
+   * Create, refresh and remove pickups so they match the latest snapshot
+   */
+  syncPickups(snapshotPickups: SnapshotPickup[]) {
+    const ids = new Set(snapshotPickups.map(pk => pk.id));
+    this.pickups.forEach((_, id) => {
+      if (!ids.has(id)) {
+        this.removePickup(id);
+      }
+    });
+
+    snapshotPickups.forEach((pk) => {
+      const existing = this.pickups.get(pk.id);
+      if (existing) {
+        existing.expiresAt = performance.now() + pk.e;
+      } else {
+        this.createPickup(pk.id, pk.k as PowerUpType, pk.x, pk.y, pk.e);
+      }
+    });
+  }
+
+  /**
+   * Blink pickups that are about to expire and drop the ones that already have
+   */
+  updatePickups(now: number) {
+    this.pickups.forEach((pickup, id) => {
+      const remaining = pickup.expiresAt - now;
+      if (remaining <= 0) {
+        this.removePickup(id);
+        return;
+      }
+      pickup.sprite.alpha = remaining < this.BLINK_THRESHOLD && Math.floor(now / 150) % 2 === 0 ? 0.3 : 1;
+    });
+  }
+}
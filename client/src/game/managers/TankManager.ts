@@ -1,17 +1,45 @@
 import * as PIXI from 'pixi.js';
 import { Tank } from '../../types/game';
 import { NetworkInterpolation } from '../NetworkInterpolation';
+import { TankClass, TANK_CLASSES, DEFAULT_TANK_CLASS } from '../../../../shared/TankClass';
+import { HitSide } from '../../../../shared/Protocol';
+
+// Sprite of each tank class (tinted with the tank's color)
+const CLASS_SPRITES: Record<TankClass, string> = {
+  scout: '/tank-scout.svg',
+  medium: '/tank.svg',
+  heavy: '/tank-heavy.svg',
+};
+
+// Bearing of each armor side clockwise from the tank's nose
+const SIDE_BEARINGS: Record<HitSide, number> = {
+  front: 0,
+  right: Math.PI / 2,
+  rear: Math.PI,
+  left: -Math.PI / 2,
+};
+
+// An arc around a tank pointing to where a hit came from
+interface HitMarker {
+  sprite: PIXI.Graphics;
+  tankId: string;
+  age: number; // Seconds since the hit
+}
 
 export class TankManager {
   private tanks: Map<string, Tank>;
+  private hitMarkers: HitMarker[] = [];
   private world: PIXI.Container;
-  private tankTexture: PIXI.Texture;
+  private textures: Record<TankClass, PIXI.Texture>;
   private socketId: string | null = null;
+  private readonly HIT_MARKER_DURATION = 0.8; // Seconds
 
   constructor(world: PIXI.Container) {
     this.tanks = new Map();
     this.world = world;
-    this.tankTexture = PIXI.Texture.from('/tank.svg');
+    this.textures = Object.fromEntries(
+      TANK_CLASSES.map(tankClass => [tankClass, PIXI.Texture.from(CLASS_SPRITES[tankClass])])
+    ) as Record<TankClass, PIXI.Texture>;
   }
 
   setSocketId(id: string | null) {
@@ -22,16 +50,17 @@ export class TankManager {
     return this.tanks;
   }
 
-  createTank(id: string, x: number, y: number, color: number, health: number, score: number) {
+  createTank(id: string, x: number, y: number, color: number, health: number, score: number, team: number = 0, tankClass: TankClass = DEFAULT_TANK_CLASS) {
     if (this.tanks.has(id)) return this.tanks.get(id)!;
 
-    const sprite = new PIXI.Sprite(this.tankTexture);
+    const sprite = new PIXI.Sprite(this.textures[tankClass] ?? this.textures[DEFAULT_TANK_CLASS]);
     sprite.anchor.set(0.5);
     sprite.width = 40;
     sprite.height = 40;
     sprite.x = x;
     sprite.y = y;
     sprite.zIndex = 1;
+    sprite.tint = color;
     this.world.addChild(sprite);
 
     const isLocal = this.socketId && id === this.socketId;
@@ -49,6 +78,10 @@ export class TankManager {
       healthBar,
       score,
       color,
+      team,
+      tankClass,
+      dead: false,
+      shielded: false,
       interpolation: isLocal ? undefined : new NetworkInterpolation(100),
     };
 
@@ -58,15 +91,30 @@ export class TankManager {
     return tank;
   }
 
+  /**
+   * Swap the sprite when a tank respawns as another class
+   */
+  setTankClass(tank: Tank, tankClass: TankClass) {
+    tank.tankClass = tankClass;
+    tank.sprite.texture = this.textures[tankClass] ?? this.textures[DEFAULT_TANK_CLASS];
+  }
+
   removeTank(id: string) {
     const tank = this.tanks.get(id);
     if (tank) {
       this.world.removeChild(tank.sprite);
       this.world.removeChild(tank.healthBar);
+      // Tanks come and go with the area of interest, so free their display objects
+      tank.sprite.destroy();
+      tank.healthBar.destroy();
       if (tank.highlight) {
         this.world.removeChild(tank.highlight);
         tank.highlight.destroy();
       }
+      if (tank.shield) {
+        this.world.removeChild(tank.shield);
+        tank.shield.destroy();
+      }
       this.tanks.delete(id);
     }
   }
@@ -91,6 +139,7 @@ export class TankManager {
         hl.lineStyle(0.8, 0xffff00, 0.5);
         hl.drawRoundedRect(-23, -23, 46, 46, 8);
         hl.zIndex = 0.75;
+        hl.visible = !tank.dead;
         this.world.addChild(hl);
         tank.highlight = hl;
       }
@@ -108,6 +157,85 @@ export class TankManager {
     }
   }
 
+  setTankDead(tank: Tank, dead: boolean) {
+    tank.dead = dead;
+    tank.sprite.visible = !dead;
+    tank.healthBar.visible = !dead;
+    if (tank.highlight) {
+      tank.highlight.visible = !dead;
+    }
+  }
+
+  setShielded(tank: Tank, shielded: boolean) {
+    tank.shielded = shielded;
+    if (shielded && !tank.shield) {
+      const shield = new PIXI.Graphics();
+      shield.lineStyle(2, 0x66ccff, 0.9);
+      shield.drawCircle(0, 0, 28);
+      shield.beginFill(0x66ccff, 0.15);
+      shield.drawCircle(0, 0, 28);
+      shield.endFill();
+      shield.zIndex = 1.5;
+      this.world.addChild(shield);
+      tank.shield = shield;
+    } else if (!shielded && tank.shield) {
+      this.world.removeChild(tank.shield);
+      tank.shield.destroy();
+      delete tank.shield;
+    }
+  }
+
+  /**
+   * Keep the shield on top of the tank and make it pulse
+   */
+  updateShield(tank: Tank, time: number) {
+    if (!tank.shield) return;
+    tank.shield.x = tank.sprite.x;
+    tank.shield.y = tank.sprite.y;
+    tank.shield.visible = !tank.dead;
+    tank.shield.alpha = 0.6 + 0.4 * Math.sin(time / 120);
+  }
+
+  /**
+   * Mark the side of a tank a hit came from: towards the attacker when it is
+   * in sight, otherwise the armor side that was struck. Deflected hits are
+   * drawn in grey.
+   */
+  showHit(tank: Tank, side: HitSide, attacker?: Tank, deflected = false) {
+    // Screen angle (0 along +x) of the hit direction
+    const angle = attacker && attacker !== tank
+      ? Math.atan2(attacker.sprite.y - tank.sprite.y, attacker.sprite.x - tank.sprite.x)
+      : tank.rotation + SIDE_BEARINGS[side] - Math.PI / 2;
+
+    const sprite = new PIXI.Graphics();
+    sprite.lineStyle(4, deflected ? 0xcccccc : 0xff3333, 0.9);
+    sprite.arc(0, 0, 32, angle - 0.5, angle + 0.5);
+    sprite.x = tank.sprite.x;
+    sprite.y = tank.sprite.y;
+    sprite.zIndex = 2.5;
+    this.world.addChild(sprite);
+    this.hitMarkers.push({ sprite, tankId: tank.id, age: 0 });
+  }
+
+  /**
+   * Keep hit markers on their tanks and fade them out
+   */
+  updateHitMarkers(dt: number) {
+    this.hitMarkers = this.hitMarkers.filter((marker) => {
+      marker.age += dt;
+      const tank = this.tanks.get(marker.tankId);
+      if (!tank || tank.dead || marker.age >= this.HIT_MARKER_DURATION) {
+        this.world.removeChild(marker.sprite);
+        marker.sprite.destroy();
+        return false;
+      }
+      marker.sprite.x = tank.sprite.x;
+      marker.sprite.y = tank.sprite.y;
+      marker.sprite.alpha = 1 - marker.age / this.HIT_MARKER_DURATION;
+      return true;
+    });
+  }
+
   updateTankAlpha(tank: Tank, underTree: boolean) {
     const alpha = underTree ? 0.5 : 1.0;
     tank.sprite.alpha = alpha;
@@ -1,13 +1,43 @@
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect } from 'react';
 import * as PIXI from 'pixi.js';
 import WebSocketService from '../services/websocket';
 import { CommandBuffer } from '../game/CommandBuffer';
 import { GameSimulation, TankState } from '../game/GameSimulation';
 import { Camera } from '../game/Camera';
 import { NetworkInterpolation } from '../game/NetworkInterpolation';
+import { SnapshotBuffer } from '../game/SnapshotBuffer';
 import { TankManager } from '../game/managers/TankManager';
 import { BulletManager } from '../game/managers/BulletManager';
 import { MapManager } from '../game/managers/MapManager';
+import { PickupManager } from '../game/managers/PickupManager';
+import { EFFECT_FLAGS, SPEED_BOOST_MULTIPLIER, STAR_FIRE_RATE_MULTIPLIER } from '../game/PowerUps';
+import { WeaponType, WEAPON_COOLDOWNS } from '../game/Weapons';
+import { FIXED_DT } from '../../../shared/TankSimulation';
+import { SnapshotMatch } from '../../../shared/Snapshot';
+import { Team, TEAM_COLORS } from '../../../shared/GameMode';
+import { TankClass, TANK_CLASS_STATS, DEFAULT_TANK_CLASS } from '../../../shared/TankClass';
+import { MatchEndPayload, StageClearPayload, GameOverPayload, MapInfoPayload, KillPayload } from '../../../shared/Protocol';
+import { KillTally } from '../types/game';
+
+const BOT_TINT = 0xFF8080; // Red-tinted tanks are AI-controlled
+
+// Co-op enemies are told apart by kind rather than team
+const ENEMY_TINTS: Record<string, number> = {
+  basic: 0xC0C0C0,
+  fast: 0x80FF80,
+  power: 0xFFC040,
+  armor: 0xC060FF,
+};
+
+/**
+ * Time the server leaves between a tank's shots: its class's fire cooldown,
+ * scaled by the weapon and halved by a star
+ */
+const shotCooldown = (tankClass: TankClass, weapon: WeaponType, effects: number) => {
+  const stats = TANK_CLASS_STATS[tankClass] ?? TANK_CLASS_STATS[DEFAULT_TANK_CLASS];
+  const cooldown = stats.fireCooldown * (WEAPON_COOLDOWNS[weapon] ?? 1);
+  return (effects & EFFECT_FLAGS.star) !== 0 ? cooldown / STAR_FIRE_RATE_MULTIPLIER : cooldown;
+};
 
 interface UseGameLoopProps {
   app: PIXI.Application | null;
@@ -16,11 +46,21 @@ interface UseGameLoopProps {
   tankManager: TankManager | null;
   bulletManager: BulletManager | null;
   mapManager: MapManager | null;
+  pickupManager: PickupManager | null;
   keysRef: React.MutableRefObject<{ [key: string]: boolean }>;
   isTouchDevice: boolean;
   joystickMagnitudeRef: React.MutableRefObject<number>;
   joystickVecRef: React.MutableRefObject<{ x: number; y: number }>;
   onScoreUpdate: (score: number) => void;
+  onWeaponUpdate: (weapon: WeaponType, ammo: number) => void;
+  onTallyUpdate: (tally: KillTally) => void;
+  onKill: (kill: KillPayload) => void;
+  onLocalDeath: (respawnIn: number, killerId?: string) => void;
+  onLocalRespawn: () => void;
+  onMatchUpdate: (match: SnapshotMatch | null, localTeam: Team) => void;
+  onMatchEnd: (result: MatchEndPayload) => void;
+  onStageEnd: (result: StageClearPayload | GameOverPayload) => void;
+  onMapInfo: (info: MapInfoPayload) => void;
   drawMinimap: () => void;
 }
 
@@ -31,31 +71,39 @@ export const useGameLoop = ({
   tankManager,
   bulletManager,
   mapManager,
+  pickupManager,
   keysRef,
   isTouchDevice,
   joystickMagnitudeRef,
   joystickVecRef,
   onScoreUpdate,
+  onWeaponUpdate,
+  onTallyUpdate,
+  onKill,
+  onLocalDeath,
+  onLocalRespawn,
+  onMatchUpdate,
+  onMatchEnd,
+  onStageEnd,
+  onMapInfo,
   drawMinimap,
 }: UseGameLoopProps) => {
   const wsService = WebSocketService.getInstance();
   const commandBufferRef = useRef<CommandBuffer>(new CommandBuffer());
   const gameSimulationRef = useRef<GameSimulation>(new GameSimulation());
+  const snapshotBufferRef = useRef<SnapshotBuffer>(new SnapshotBuffer());
   const localTankStateRef = useRef<TankState | null>(null);
+  const previousTankStateRef = useRef<TankState | null>(null); // State before the latest fixed step, for render blending
+  const accumulatorRef = useRef<number>(0);
   const lastShotTimeRef = useRef<number>(0);
+  const matchRef = useRef<SnapshotMatch | null>(null);
+  const localTeamRef = useRef<Team>(Team.NONE);
   const pendingShootRef = useRef<boolean>(false);
-  const sequenceIdRef = useRef<number>(0);
-  const lastInputSentTimeRef = useRef<number>(0);
-  const SHOT_COOLDOWN = 500;
-  const INPUT_INTERVAL = 1000 / 20; // Send 20 inputs per second
-
-  const getDirectionFromRotation = (rotation: number) => ({
-    x: Math.sin(rotation),
-    y: -Math.cos(rotation),
-  });
+  const shotCooldownRef = useRef<number>(TANK_CLASS_STATS[DEFAULT_TANK_CLASS].fireCooldown); // ms, kept in step with the server's
+  const MAX_FRAME_TIME = 0.25; // Seconds; avoids a burst of steps after the tab was in the background
 
   useEffect(() => {
-    if (!app || !world || !tankManager || !bulletManager || !mapManager) return;
+    if (!app || !world || !tankManager || !bulletManager || !mapManager || !pickupManager) return;
 
     const gameLoop = () => {
       const deltaMS = app.ticker.deltaMS;
@@ -65,7 +113,8 @@ export const useGameLoop = ({
       const tanks = tankManager.getTanks();
 
       const localTankLoop = localId ? tanks.get(localId) : null;
-      if (localTankLoop) {
+      // While destroyed the server ignores input, so neither predict nor send any
+      if (localTankLoop && !localTankLoop.dead) {
         if (!localTankStateRef.current) {
           localTankStateRef.current = {
             x: localTankLoop.sprite.x,
@@ -79,8 +128,6 @@ export const useGameLoop = ({
           down: false,
           left: false,
           right: false,
-          shoot: false,
-          sequenceId: 0
         };
 
         if (!isTouchDevice) {
@@ -103,43 +150,45 @@ export const useGameLoop = ({
           }
         }
 
-        // Client-side prediction
-        let direction: 'forward' | 'backward' | undefined = undefined;
-        if (input.up) direction = 'forward';
-        else if (input.down) direction = 'backward';
-
-        // Update local state with prediction using current deltaTime
-        localTankStateRef.current = gameSimulationRef.current.applyCommand(
-          localTankStateRef.current,
-          { commandId: 0, rotation: 0, direction, left: input.left, right: input.right, timestamp: Date.now() },
-          dt
-        );
+        // Client-side prediction: one fixed step per input, sent at the server tick rate.
+        // Between matches (and co-op stages) the server drops input, so hold the tank
+        // where the server has it instead of predicting moves that never get confirmed
+        if (matchRef.current?.ov === 1) {
+          accumulatorRef.current = 0;
+          previousTankStateRef.current = null;
+          pendingShootRef.current = false;
+        } else {
+          accumulatorRef.current += Math.min(dt, MAX_FRAME_TIME);
+        }
+        while (accumulatorRef.current >= FIXED_DT) {
+          accumulatorRef.current -= FIXED_DT;
 
-        localTankLoop.sprite.x = localTankStateRef.current.x;
-        localTankLoop.sprite.y = localTankStateRef.current.y;
-        localTankLoop.rotation = localTankStateRef.current.rotation;
-        localTankLoop.sprite.rotation = localTankStateRef.current.rotation;
-        tankManager.updateHealthBar(localTankLoop);
+          // Store command for reconciliation; its ID is the input's sequence ID
+          const command = commandBufferRef.current.addCommand(input);
+          previousTankStateRef.current = localTankStateRef.current;
+          localTankStateRef.current = gameSimulationRef.current.applyCommand(localTankStateRef.current, command);
 
-        // Throttle input sending
-        if (Date.now() - lastInputSentTimeRef.current >= INPUT_INTERVAL) {
-          sequenceIdRef.current++;
-          input.sequenceId = sequenceIdRef.current;
-          
-          if (pendingShootRef.current && Date.now() - lastShotTimeRef.current >= SHOT_COOLDOWN) {
-            input.shoot = true;
+          let shoot = false;
+          if (pendingShootRef.current && Date.now() - lastShotTimeRef.current >= shotCooldownRef.current) {
+            shoot = true;
             lastShotTimeRef.current = Date.now();
             pendingShootRef.current = false;
           }
-          
-          // Store command for reconciliation
-          // Note: we use server-tick-equivalent rotation/direction for the command buffer
-          // to match server's movement logic during re-simulation.
-          commandBufferRef.current.addCommand(0, direction, input.left, input.right);
-          
-          wsService.sendPlayerInput(input);
-          lastInputSentTimeRef.current = Date.now();
+
+          wsService.sendPlayerInput({ ...input, shoot, sequenceId: command.commandId });
         }
+
+        // Render between the last two fixed steps
+        const renderState = gameSimulationRef.current.interpolateState(
+          previousTankStateRef.current ?? localTankStateRef.current,
+          localTankStateRef.current,
+          accumulatorRef.current / FIXED_DT
+        );
+        localTankLoop.sprite.x = renderState.x;
+        localTankLoop.sprite.y = renderState.y;
+        localTankLoop.rotation = renderState.rotation;
+        localTankLoop.sprite.rotation = renderState.rotation;
+        tankManager.updateHealthBar(localTankLoop);
       }
 
       const currentTime = performance.now();
@@ -169,8 +218,13 @@ export const useGameLoop = ({
         tankManager.updateTankAlpha(localTankLoop, underTree);
       }
 
-      tanks.forEach((t) => tankManager.ensureHighlightState(t));
+      tanks.forEach((t) => {
+        tankManager.ensureHighlightState(t);
+        tankManager.updateShield(t, currentTime);
+      });
+      tankManager.updateHitMarkers(dt);
       bulletManager.updateBullets(dt);
+      pickupManager.updatePickups(currentTime);
 
       if (camera && localId && localTankStateRef.current) {
           const cameraOffset = camera.follow(localTankStateRef.current.x, localTankStateRef.current.y);
@@ -185,7 +239,7 @@ export const useGameLoop = ({
     return () => {
       app.ticker.remove(gameLoop);
     };
-  }, [app, world, camera, tankManager, bulletManager, mapManager, isTouchDevice, drawMinimap]);
+  }, [app, world, camera, tankManager, bulletManager, mapManager, pickupManager, isTouchDevice, drawMinimap]);
 
   // Handle shooting logic
   const handleShoot = () => {
@@ -202,42 +256,106 @@ export const useGameLoop = ({
     return () => window.removeEventListener('keydown', onKeyDown);
   }, [handleShoot]);
 
-  // WebSocket listeners registration (abbreviated here, should be comprehensive)
+  // WebSocket listeners registration
   useEffect(() => {
-    if (!tankManager || !bulletManager || !mapManager) return;
+    if (!tankManager || !bulletManager || !mapManager || !pickupManager) return;
 
     const cleanup = [
-      wsService.onMapObjects((objects) => objects.forEach(obj => mapManager.createMapObject(obj))),
-      wsService.onMapUpdate((data) => mapManager.updateMapObject(data.objectId, data.destroyed)),
-      wsService.onPlayerLeave((playerId) => tankManager.removeTank(playerId)),
-      wsService.onPlayerJoin((player) => {
-        const localId = wsService.getSocketId();
-        if (localId) tankManager.setSocketId(localId);
-        if (!tankManager.getTanks().has(player.id)) {
-          tankManager.createTank(player.id, player.x, player.y, player.color, player.health, player.score);
+      wsService.on('map-info', (info) => {
+        gameSimulationRef.current.setWorldSize(info.width, info.height);
+        onMapInfo(info);
+      }),
+      wsService.on('map-objects', (objects) => {
+        objects.forEach(obj => mapManager.createMapObject(obj));
+        gameSimulationRef.current.setMapObjects(objects);
+      }),
+      wsService.on('map-update', (data) => {
+        mapManager.updateMapObject(data);
+        gameSimulationRef.current.updateMapObject(data);
+      }),
+      wsService.on('bullet-clash', (data) => bulletManager.createSpark(data.x, data.y)),
+      wsService.on('explosion', (data) => bulletManager.createExplosion(data.x, data.y, data.radius)),
+      wsService.on('health-update', (data) => {
+        // Only our own tank shows where hits come from
+        if (data.id !== wsService.getSocketId() || !data.side) return;
+        const tank = tankManager.getTanks().get(data.id);
+        const attacker = data.attackerId ? tankManager.getTanks().get(data.attackerId) : undefined;
+        if (tank) tankManager.showHit(tank, data.side, attacker, data.deflected);
+      }),
+      wsService.on('player-leave', (playerId) => tankManager.removeTank(playerId)),
+      wsService.on('player-died', (data) => {
+        const tank = tankManager.getTanks().get(data.id);
+        if (tank) tankManager.setTankDead(tank, true);
+        if (data.id === wsService.getSocketId()) {
+          pendingShootRef.current = false;
+          onLocalDeath(data.respawnIn, data.killerId);
         }
       }),
-      wsService.onGameStateUpdate((state) => {
-        const localId = wsService.getSocketId();
-        if (localId) tankManager.setSocketId(localId);
-        if (state.players) {
-          state.players.forEach((player: any) => {
-            if (!tankManager.getTanks().has(player.id)) {
-              tankManager.createTank(player.id, player.x, player.y, player.color, player.health, player.score);
-            }
-          });
+      wsService.on('kill', (kill) => onKill(kill)),
+      wsService.on('match-end', (result) => onMatchEnd(result)),
+      wsService.on('stage-clear', (result) => onStageEnd(result)),
+      wsService.on('game-over', (result) => onStageEnd(result)),
+      wsService.on('player-respawned', (player) => {
+        const tank = tankManager.getTanks().get(player.id);
+        if (!tank) return;
+        tank.sprite.x = player.x;
+        tank.sprite.y = player.y;
+        tank.rotation = player.rotation;
+        tank.sprite.rotation = player.rotation;
+        tank.health = player.health;
+        tankManager.setTankDead(tank, false);
+        tankManager.updateHealthBar(tank);
+        if (player.id === wsService.getSocketId()) {
+          // Start predicting from the new spawn; inputs sent before death are stale
+          localTankStateRef.current = { x: player.x, y: player.y, rotation: player.rotation };
+          previousTankStateRef.current = null;
+          commandBufferRef.current.removeConfirmedCommands(commandBufferRef.current.getLatestCommandId());
+          onLocalRespawn();
+        } else {
+          // Don't interpolate from the death position to the spawn point
+          tank.interpolation?.clear();
         }
       }),
-      wsService.onSnapshot((snapshot) => {
+      wsService.onSnapshot((delta) => {
+        // Rebuild the full state from the delta and confirm it as the next baseline
+        const snapshot = snapshotBufferRef.current.apply(delta);
+        if (!snapshot) return;
+        wsService.sendSnapshotAck(snapshot.t);
+
         const localId = wsService.getSocketId();
         if (localId) tankManager.setSocketId(localId);
-        
+
+        // Snapshots only hold tanks in our area of interest: drop the ones that left it
+        const snapshotPlayerIds = new Set(snapshot.p.map(p => p.id));
+        tankManager.getTanks().forEach((_, id) => {
+          if (!snapshotPlayerIds.has(id)) {
+            tankManager.removeTank(id);
+          }
+        });
+
         snapshot.p.forEach((player: any) => {
           let tank = tankManager.getTanks().get(player.id);
           
           if (!tank) {
-            // Create tank if it doesn't exist (both for local and remote)
-            tank = tankManager.createTank(player.id, player.x, player.y, 0xFFFFFF, player.h, player.s);
+            // Tank entered our area of interest (or is our own, first seen)
+            // Enemy kind and team colors take precedence; in free-for-all bots stand out instead
+            const color = ENEMY_TINTS[player.k] ?? (player.tm ? TEAM_COLORS[player.tm as Team] : player.ai ? BOT_TINT : TEAM_COLORS[Team.NONE]);
+            tank = tankManager.createTank(player.id, player.x, player.y, color, player.h, player.s, player.tm, player.tc);
+          }
+          if (tank && player.tc && tank.tankClass !== player.tc) {
+            tankManager.setTankClass(tank, player.tc);
+          }
+          if (tank && player.mh && tank.maxHealth !== player.mh) {
+            tank.maxHealth = player.mh;
+            tankManager.updateHealthBar(tank);
+          }
+
+          if (tank && tank.dead !== !!player.d) {
+            tankManager.setTankDead(tank, !!player.d);
+          }
+          const shielded = !!player.pr || (player.fx & EFFECT_FLAGS.shield) !== 0;
+          if (tank && tank.shielded !== shielded) {
+            tankManager.setShielded(tank, shielded);
           }
 
           if (player.id !== localId) {
@@ -251,35 +369,52 @@ export const useGameLoop = ({
             }
           } else {
             // Reconciliation for local player
-            if (tank && localTankStateRef.current) {
+            if (tank && !tank.dead && localTankStateRef.current) {
+              gameSimulationRef.current.setTankClass(player.tc);
+              gameSimulationRef.current.setSpeedMultiplier(
+                (player.fx & EFFECT_FLAGS.speed) !== 0 ? SPEED_BOOST_MULTIPLIER : 1
+              );
+              shotCooldownRef.current = shotCooldown(player.tc as TankClass, player.wp as WeaponType, player.fx);
+
               // Server state for local player
-              const serverState = { x: player.x, y: player.y, rotation: player.r / 100 };
+              const serverState = { x: player.x, y: player.y, rotation: player.r / 100, vx: player.vx, vy: player.vy };
               
+              // The server cleared its input queue when the intermission began
+              if (snapshot.m?.ov === 1) {
+                commandBufferRef.current.removeConfirmedCommands(commandBufferRef.current.getLatestCommandId());
+              }
+
               // Re-simulate commands that haven't been confirmed yet
               const unconfirmedCommands = commandBufferRef.current.getUnconfirmedCommands(player.sid);
               const reconciledState = gameSimulationRef.current.reSimulateCommands(serverState, unconfirmedCommands);
               
-              // Update local predicted state with reconciled state
+              // Update local predicted state with reconciled state; the render loop
+              // blends towards it from the previous step. Since both sides run the same
+              // quantized steps this only differs from the prediction on a real mismatch
+              // (e.g. a collision with another tank)
               localTankStateRef.current = reconciledState;
-              
-              // Smoothly transition local tank towards reconciled position to avoid snapping
-              // If the difference is small, we can just snap. If large, we should probably snap anyway
-              // but here we follow the instruction to reconcile.
-              tank.sprite.x = reconciledState.x;
-              tank.sprite.y = reconciledState.y;
-              tank.rotation = reconciledState.rotation;
-              tank.sprite.rotation = reconciledState.rotation;
-              
+
               tank.health = player.h;
               tank.score = player.s;
               tankManager.updateHealthBar(tank);
               onScoreUpdate(player.s);
+              onWeaponUpdate(player.wp as WeaponType, player.am);
+              onTallyUpdate({ kills: player.kl, deaths: player.dt, assists: player.as });
               
               commandBufferRef.current.removeConfirmedCommands(player.sid);
             }
           }
         });
 
+        // Match state only changes (and is only re-created) every so often
+        const match = snapshot.m ?? null;
+        const localTeam = (snapshot.p.find(p => p.id === localId)?.tm ?? Team.NONE) as Team;
+        if (match !== matchRef.current || localTeam !== localTeamRef.current) {
+          matchRef.current = match;
+          localTeamRef.current = localTeam;
+          onMatchUpdate(match, localTeam);
+        }
+
         // Update bullets from snapshot
         // First, mark all current bullets as potentially removed
         const currentBullets = bulletManager.getBullets();
@@ -292,6 +427,8 @@ export const useGameLoop = ({
           }
         });
 
+        pickupManager.syncPickups(snapshot.pk);
+
         // Add or update bullets from snapshot
         snapshot.b.forEach((b: any) => {
           if (!currentBullets.has(b.id)) {
@@ -303,7 +440,8 @@ export const useGameLoop = ({
               0xFFFFFF, 
               '', 
               { x: b.dx / 100, y: b.dy / 100 }, 
-              b.sp
+              b.sp,
+              b.w as WeaponType
             );
           } else {
             const bullet = currentBullets.get(b.id);
@@ -328,10 +466,9 @@ export const useGameLoop = ({
     ];
 
     return () => {
-      // wsService doesn't return unsubscribe functions currently in its implementation based on common patterns, 
-      // but if it did, we'd call them here. For now, we assume wsService manages its own listeners or we'd need to add off() methods.
+      cleanup.forEach(unsubscribe => unsubscribe());
     };
-  }, [tankManager, bulletManager, mapManager, wsService]);
+  }, [tankManager, bulletManager, mapManager, pickupManager, wsService]);
 
   return { localTankStateRef, handleShoot };
 };
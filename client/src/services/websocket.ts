@@ -1,9 +1,29 @@
 import { io, Socket } from 'socket.io-client';
+import { DeltaSnapshot } from '../../../shared/Snapshot';
+import { WireProtocol, SnapshotDecoder, encodeInput } from '../../../shared/WireFormat';
+import { MapDefinition } from '../../../shared/MapFormat';
+import { TankClass, DEFAULT_TANK_CLASS, isTankClass } from '../../../shared/TankClass';
+import {
+  PROTOCOL_VERSION,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  HandshakeAuth,
+  PlayerInputPayload,
+} from '../../../shared/Protocol';
+
+// Events app code subscribes to directly; snapshots go through onSnapshot so they are decoded once
+type GameEvents = Omit<ServerToClientEvents, 's' | 'latency-probe'>;
+
+const TANK_CLASS_KEY = 'tank90-tank-class'; // localStorage key of the last class picked
 
 class WebSocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private static instance: WebSocketService;
   private readonly SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+  // Binary unless VITE_WIRE_PROTOCOL=json (readable frames for debugging)
+  private readonly PROTOCOL: WireProtocol = import.meta.env.VITE_WIRE_PROTOCOL === 'json' ? 'json' : 'binary';
+  private snapshotDecoder = new SnapshotDecoder();
+  private snapshotCallbacks = new Set<(snapshot: DeltaSnapshot) => void>();
 
   private constructor() {}
 
@@ -16,8 +36,12 @@ class WebSocketService {
 
   connect() {
     console.log('Connecting to server:', this.SERVER_URL);
+    // ?map=<name> in the page URL asks for a specific map
+    const map = new URLSearchParams(window.location.search).get('map') ?? undefined;
+    const auth: HandshakeAuth = { version: PROTOCOL_VERSION, protocol: this.PROTOCOL, map, tankClass: this.getTankClass() };
     this.socket = io(this.SERVER_URL, {
-      transports: ['websocket']
+      transports: ['websocket'],
+      auth,
     });
 
     this.socket.on('connect', () => {
@@ -31,6 +55,28 @@ class WebSocketService {
     this.socket.on('connect_error', (error: Error) => {
       console.error('Connection error:', error.message);
     });
+
+    // Decode each snapshot once (the string table is per connection) and fan it out
+    this.snapshotDecoder.clear();
+    this.socket.on('s', (data) => {
+      let snapshot: DeltaSnapshot;
+      if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
+        try {
+          snapshot = this.snapshotDecoder.decode(data instanceof Uint8Array ? data : new Uint8Array(data));
+        } catch (error) {
+          console.error('Malformed snapshot:', error);
+          return;
+        }
+      } else {
+        snapshot = data;
+      }
+      this.snapshotCallbacks.forEach(callback => callback(snapshot));
+    });
+
+    // Answer latency probes so the server can lag-compensate our shots
+    this.socket.on('latency-probe', (ack) => {
+      ack();
+    });
   }
 
   disconnect() {
@@ -41,137 +87,77 @@ class WebSocketService {
   }
 
   // Player input
-  sendPlayerInput(input: {
-    up: boolean;
-    down: boolean;
-    left: boolean;
-    right: boolean;
-    shoot: boolean;
-    sequenceId: number;
-  }) {
-    if (this.socket) {
-      this.socket.emit('player-input', input);
-    }
-  }
-
-  // Player movement - now sends only input data and command ID
-  sendPlayerMove(commandId: number, rotation: number, direction?: 'forward' | 'backward') {
-    if (this.socket) {
-      this.socket.emit('player-move', { commandId, rotation, direction });
-    }
-  }
-
-  // Player shooting
-  sendPlayerShoot(x: number, y: number, direction: { x: number; y: number }) {
-    if (this.socket) {
-      this.socket.emit('player-shoot', { x, y, direction });
-    }
-  }
-
-  // Tank destroyed
-  sendTankDestroyed(tankId: string) {
-    if (this.socket) {
-      this.socket.emit('tank-destroyed', { tankId });
-    }
-  }
-
-  // Score update
-  sendScoreUpdate(playerId: string, score: number) {
-    if (this.socket) {
-      this.socket.emit('score-update', { playerId, score });
-    }
-  }
-
-  // Health update
-  sendHealthUpdate(tankId: string, health: number) {
-    if (this.socket) {
-      this.socket.emit('health-update', { id: tankId, health });
-    }
-  }
-
-  // Event listeners
-  onPlayerJoin(callback: (player: any) => void) {
+  sendPlayerInput(input: PlayerInputPayload) {
     if (this.socket) {
-      this.socket.on('player-join', callback);
+      this.socket.emit('player-input', this.PROTOCOL === 'binary' ? encodeInput(input) : input);
     }
   }
 
-  onPlayerLeave(callback: (playerId: string) => void) {
-    if (this.socket) {
-      this.socket.on('player-leave', callback);
-    }
-  }
-
-  onPlayerMove(callback: (data: { id: string; x: number; y: number; rotation: number }) => void) {
-    if (this.socket) {
-      this.socket.on('player-move', callback);
-    }
-  }
-
-  onHealthUpdate(callback: (data: { id: string; health: number }) => void) {
-    if (this.socket) {
-      this.socket.on('health-update', callback);
-    }
-  }
-
-  onGameStateUpdate(callback: (state: any) => void) {
-    if (this.socket) {
-      this.socket.on('game-state', callback);
-    }
+  /**
+   * Class to drive: ?class=<name> in the page URL, else the last one picked
+   */
+  getTankClass(): TankClass {
+    const requested = new URLSearchParams(window.location.search).get('class') ?? localStorage.getItem(TANK_CLASS_KEY);
+    return isTankClass(requested) ? requested : DEFAULT_TANK_CLASS;
   }
 
-  // Snapshot update
-  onSnapshot(callback: (snapshot: {
-    t: number;
-    p: any[];
-    b: any[];
-  }) => void) {
+  // Pick the class of the next tank (used from the next respawn, and remembered for later visits)
+  selectTankClass(tankClass: TankClass) {
+    localStorage.setItem(TANK_CLASS_KEY, tankClass);
     if (this.socket) {
-      this.socket.on('s', callback);
+      this.socket.emit('select-class', tankClass);
     }
   }
 
-  // State update with command confirmation
-  onStateUpdate(callback: (data: { 
-    players: any[]; 
-    bullets: any[]; 
-    latestConfirmedCommandId?: number;
-    authoritativeState?: { x: number; y: number; rotation: number };
-  }) => void) {
+  // Confirm receipt of a snapshot so the server can delta-encode against it
+  sendSnapshotAck(tick: number) {
     if (this.socket) {
-      this.socket.on('state-update', callback);
+      this.socket.emit('snapshot-ack', tick);
     }
   }
 
-  // Map objects and updates
-  onMapObjects(callback: (objects: any[]) => void) {
-    if (this.socket) {
-      this.socket.on('map-objects', callback);
-    }
-  }
-
-  onMapUpdate(callback: (data: { objectId: string; destroyed: boolean }) => void) {
-    if (this.socket) {
-      this.socket.on('map-update', callback);
-    }
-  }
-
-  onBulletCreate(callback: (bullet: any) => void) {
-    if (this.socket) {
-      this.socket.on('bullet-create', callback);
-    }
+  /**
+   * Subscribe to a server event
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof GameEvents>(event: E, callback: GameEvents[E]): () => void {
+    const socket = this.socket;
+    if (!socket) return () => {};
+    // socket.io's typed listener signature doesn't narrow through a generic event name
+    const listener = callback as Parameters<typeof socket.on<E>>[1];
+    socket.on(event, listener);
+    return () => {
+      socket.off(event, listener);
+    };
   }
 
-  onBulletRemove(callback: (bulletId: string) => void) {
-    if (this.socket) {
-      this.socket.on('bullet-remove', callback);
-    }
+  /**
+   * Subscribe to decoded snapshots
+   * @returns A function that removes the listener
+   */
+  onSnapshot(callback: (snapshot: DeltaSnapshot) => void): () => void {
+    this.snapshotCallbacks.add(callback);
+    return () => {
+      this.snapshotCallbacks.delete(callback);
+    };
   }
 
-  onScoreUpdate(callback: (data: { playerId: string; score: number }) => void) {
-    if (this.socket) {
-      this.socket.on('score-update', callback);
+  /**
+   * Upload a map from the editor for a private playtest room
+   * @returns The name to join the room with (?map=<name>)
+   * @throws Error with the server's reason when it rejects the map
+   */
+  async createPlaytestMap(map: MapDefinition): Promise<string> {
+    const response = await fetch(`${this.SERVER_URL}/maps/playtest`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(map),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.message ?? `Playtest request failed (${response.status})`);
     }
+    return body.name;
   }
 
   // Get socket ID
@@ -180,4 +166,4 @@ class WebSocketService {
   }
 }
 
-export default WebSocketService; 
\ No newline at end of file
+export default WebSocketService;
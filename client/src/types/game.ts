@@ -1,5 +1,7 @@
 import * as PIXI from 'pixi.js';
 import { NetworkInterpolation } from '../game/NetworkInterpolation';
+import { PowerUpType } from '../game/PowerUps';
+import { TankClass } from '../../../shared/TankClass';
 
 export interface Bullet {
   sprite: PIXI.Graphics;
@@ -18,10 +20,22 @@ export interface Tank {
   healthBar: PIXI.Graphics;
   score: number;
   color: number;
+  team: number; // Team (0 in free-for-all)
+  tankClass: TankClass; // Decides the sprite
+  dead: boolean;
+  shielded: boolean;
   highlight?: PIXI.Graphics;
+  shield?: PIXI.Graphics; // Shown while spawn protection or a shield power-up is active
   interpolation?: NetworkInterpolation; // For remote tanks only
 }
 
+export interface Pickup {
+  sprite: PIXI.Container;
+  id: string;
+  type: PowerUpType;
+  expiresAt: number; // performance.now() timestamp
+}
+
 export interface Point {
   x: number;
   y: number;
@@ -32,3 +46,10 @@ export interface GameState {
   bullets: any[];
   mapObjects?: any[];
 }
+
+// A player's kills, deaths and assists this match
+export interface KillTally {
+  kills: number;
+  deaths: number;
+  assists: number;
+}
@@ -11,6 +11,10 @@ export default defineConfig({
       'localhost',
       '127.0.0.1'
     ],
-    cors: true
+    cors: true,
+    fs: {
+      // Allow importing the simulation code in ../shared
+      allow: ['..']
+    }
   }
 }) 
\ No newline at end of file
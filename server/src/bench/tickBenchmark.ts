@@ -0,0 +1,86 @@
+/**
+ * Tick Benchmark
+ * Measures how long Game.tick takes with N players driving random inputs and
+ * a steady population of M bullets.
+ *
+ * Usage: npm run bench -- --players 30 --bullets 200 --ticks 500
+ */
+
+import { Game } from '../game/Game';
+
+function readArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) return fallback;
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.floor(sorted.length * p));
+  return sorted[index];
+}
+
+const PLAYER_COUNT = readArg('players', 30);
+const BULLET_COUNT = readArg('bullets', 200);
+const TICKS = readArg('ticks', 500);
+const WARMUP_TICKS = 50;
+
+const game = new Game();
+game.stop();
+
+const playerIds: string[] = [];
+for (let i = 0; i < PLAYER_COUNT; i++) {
+  const id = `bench-player-${i}`;
+  game.addPlayer(id);
+  playerIds.push(id);
+}
+
+let liveBullets = 0;
+game.on('tick', (snapshot) => {
+  liveBullets = snapshot.b.length;
+});
+
+let sequenceId = 0;
+const durations: number[] = [];
+
+for (let tick = 0; tick < WARMUP_TICKS + TICKS; tick++) {
+  sequenceId++;
+  playerIds.forEach((id) => {
+    game.handleInput(id, {
+      up: Math.random() < 0.7,
+      down: false,
+      left: Math.random() < 0.2,
+      right: Math.random() < 0.2,
+      shoot: Math.random() < 0.1,
+      sequenceId,
+    });
+  });
+
+  // Keep the bullet population topped up
+  for (let i = liveBullets; i < BULLET_COUNT; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    game.createBullet('bench-turret', Math.random() * 4000, Math.random() * 4000, {
+      x: Math.sin(angle),
+      y: -Math.cos(angle),
+    });
+  }
+  liveBullets = BULLET_COUNT;
+
+  const start = process.hrtime.bigint();
+  game.tick();
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  if (tick >= WARMUP_TICKS) {
+    durations.push(elapsedMs);
+  }
+}
+
+const sorted = [...durations].sort((a, b) => a - b);
+const average = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+
+console.log(`Players: ${PLAYER_COUNT}, bullets: ${BULLET_COUNT}, ticks: ${TICKS}`);
+console.log(`avg ${average.toFixed(3)} ms | p50 ${percentile(sorted, 0.5).toFixed(3)} ms | p95 ${percentile(sorted, 0.95).toFixed(3)} ms | max ${sorted[sorted.length - 1].toFixed(3)} ms`);
+console.log(`Tick budget at 25 Hz: 40 ms`);
+
+// Score saves may be queued on Mongo, which the benchmark never connects to
+process.exit(0);
@@ -0,0 +1,58 @@
+/**
+ * Directional Armor
+ * Tanks are armoured thickest at the front and thinnest at the rear: a shell's
+ * damage is scaled by the plate it strikes, and one striking the hull at a very
+ * shallow angle glances off without doing any.
+ */
+
+import { HitSide } from '../../../shared/Protocol';
+
+export const ARMOR_MULTIPLIERS: Record<HitSide, number> = {
+  front: 0.75,
+  left: 1,
+  right: 1,
+  rear: 1.5,
+};
+
+export const GLANCE_ANGLE = (75 * Math.PI) / 180; // Shells further than this from the hull's surface normal glance off
+
+export interface Impact {
+  side: HitSide;
+  glancing: boolean;
+  x: number; // Entry point relative to the tank's centre
+  y: number;
+  normal: { x: number; y: number }; // Outward hull normal at the entry point
+}
+
+/**
+ * Side of a tank facing `rotation` that faces the point (dx, dy) from its centre
+ */
+export function sideFacing(rotation: number, dx: number, dy: number): HitSide {
+  // Bearing of the point clockwise from the tank's nose, in (-π, π]
+  const bearing = Math.atan2(dx, -dy) - rotation;
+  const relative = Math.atan2(Math.sin(bearing), Math.cos(bearing));
+  if (Math.abs(relative) <= Math.PI / 4) return 'front';
+  if (Math.abs(relative) >= (Math.PI * 3) / 4) return 'rear';
+  return relative > 0 ? 'right' : 'left';
+}
+
+/**
+ * Where a shell that has ended up at (dx, dy) from the centre of a hull of
+ * `radius` entered it, travelling along the unit vector `direction`
+ */
+export function impactOf(
+  rotation: number,
+  dx: number,
+  dy: number,
+  direction: { x: number; y: number },
+  radius: number
+): Impact {
+  // Step back along the shell's path to where it crossed the hull's edge
+  const along = dx * direction.x + dy * direction.y;
+  const back = along + Math.sqrt(Math.max(0, along * along - (dx * dx + dy * dy) + radius * radius));
+  const x = dx - back * direction.x;
+  const y = dy - back * direction.y;
+  const normal = { x: x / radius, y: y / radius };
+  const incidence = -(direction.x * normal.x + direction.y * normal.y);
+  return { side: sideFacing(rotation, x, y), glancing: incidence < Math.cos(GLANCE_ANGLE), x, y, normal };
+}
@@ -1,6 +1,42 @@
 import Score from '../models/Score';
 import { EventEmitter } from 'events';
-import { MapObject, MapObjectType, generateMapLayout, circleCollidesWithMapObject, pointInMapObject } from './MapObject';
+import { MapObject, MapObjectType, SpawnPoint, CELL_SIZE, BRICK_FULLY_DAMAGED, brickQuarterAt, generateBase, generateEnemyGates, mapObjectsOverlap, blocksTanks, circleCollidesWithMapObject, pointInMapObject } from './MapObject';
+import { SpatialGrid } from './SpatialGrid';
+import { PositionHistory } from './PositionHistory';
+import { WeaponType, WEAPONS, MINE_TRIGGER_RADIUS, MAX_MINES_PER_PLAYER } from './Weapon';
+import { ARMOR_MULTIPLIERS, Impact, impactOf, sideFacing } from './Armor';
+import {
+  TICK_RATE,
+  FIXED_DT,
+  TANK_SPEED,
+  ROTATION_SPEED,
+  BULLET_SPEED,
+  TANK_RADIUS,
+  TankParams,
+  TankWorld,
+  stepTank,
+} from '../../../shared/TankSimulation';
+import { Snapshot, SnapshotMatch } from '../../../shared/Snapshot';
+import { GameMode, GAME_MODES, Team, TEAMS, TEAM_COLORS, isTeamMode } from '../../../shared/GameMode';
+import { MatchEndPayload, MapInfoPayload, PlayerPayload, HitSide } from '../../../shared/Protocol';
+import { TankClass, TANK_CLASSES, TANK_CLASS_STATS, DEFAULT_TANK_CLASS } from '../../../shared/TankClass';
+import { MapDefinition, buildMapObjects } from '../../../shared/MapFormat';
+import { CLASSIC_MAP } from './maps/Maps';
+import { STAGES, ENEMY_KINDS, expandRoster } from './coop/Stages';
+import {
+  PowerUp,
+  PowerUpType,
+  POWER_UP_DURATIONS,
+  EFFECT_FLAGS,
+  STAR_FIRE_RATE_MULTIPLIER,
+  STAR_BULLET_SPEED_MULTIPLIER,
+  SPEED_BOOST_MULTIPLIER,
+  BOMB_DAMAGE,
+  SHOVEL_RADIUS,
+  MAX_EXTRA_LIVES,
+  randomPowerUpType,
+  WEAPON_PICKUPS,
+} from './PowerUp';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -19,12 +55,55 @@ export interface Player {
   x: number;
   y: number;
   rotation: number;
+  vx: number; // Velocity kept while sliding on ice (units per second)
+  vy: number;
   color: number;
   health: number;
   score: number;
   lastInputSequenceId: number;
+  dead: boolean;
+  respawnAt: number; // Timestamp (ms) at which a dead player re-enters the arena
+  spawnProtectedUntil: number; // Timestamp (ms) until which the tank ignores damage
+  effects: Partial<Record<PowerUpType, number>>; // Active timed power-ups and their expiry timestamps (ms)
+  extraLives: number;
+  isBot: boolean; // Driven by a BotController rather than a socket
+  team: Team;
+  kind: string; // '' for player tanks, the enemy kind for co-op enemies
+  tankClass: TankClass; // Co-op enemies keep the default; their kind sets their stats
+  nextClass: TankClass; // Class to take at the next respawn
+  stats: TankStats;
+  weapon: WeaponType;
+  ammo: number; // Shots left with a special weapon (unused with the cannon)
+  // This match's tally
+  kills: number;
+  deaths: number;
+  assists: number;
 }
 
+// Per-tank handling: player tanks use their class's, co-op enemies their kind's
+export interface TankStats {
+  maxHealth: number;
+  speed: number; // Units per second
+  rotationSpeed: number; // Radians per second
+  bulletSpeed: number; // Units per second
+  fireCooldown: number; // ms between shots
+  regen: number; // Health recovered per second
+}
+
+export interface AddPlayerOptions {
+  team?: Team; // Auto-balanced when omitted
+  kind?: string;
+  tankClass?: TankClass;
+  stats?: TankStats; // Overrides the class's
+  spawn?: SpawnPoint;
+}
+
+// What dealt a hit: the weapon that fired the projectile, or a bomb pickup
+type DamageCause = WeaponType | 'bomb';
+
+// What a bullet fired along a line would run into
+export type LineOfSight = 'clear' | 'brick' | 'blocked';
+
 export interface Bullet {
   id: string;
   playerId: string;
@@ -32,182 +111,327 @@ export interface Bullet {
   y: number;
   direction: { x: number; y: number };
   speed: number;
+  rewindMs: number; // How far back in time hits are checked (lag compensation)
+  powered: boolean; // Fired under a star: breaks steel
+  weapon: WeaponType; // What fired it (decides damage and whether it explodes)
+  bouncesLeft: number; // Ricochets off concrete before the bullet is stopped
 }
 
 export class Game extends EventEmitter {
   private players = new Map<string, Player>();
   private bullets = new Map<string, Bullet>();
-  private nextPlayerColor = 0xFFFF00;
-  private colors = [0xFFFF00, 0x0000FF, 0xFF0000, 0x00FF00, 0xFF00FF, 0x00FFFF];
-  private readonly WORLD_WIDTH = 4000;
-  private readonly WORLD_HEIGHT = 4000;
-  private readonly TANK_RADIUS = 20;
+  private nextBulletId = 0;
+  private readonly map: MapDefinition;
+  private readonly WORLD_WIDTH: number;
+  private readonly WORLD_HEIGHT: number;
+  private readonly TANK_RADIUS = TANK_RADIUS;
   
   private mapObjects = new Map<string, MapObject>();
+  // Spatial indexes for collision queries; destroyed bricks and dead tanks are left out
+  private mapGrid = new SpatialGrid<MapObject>(CELL_SIZE);
+  private playerGrid = new SpatialGrid<Player>(CELL_SIZE);
+  private spawnPoints: SpawnPoint[] = [];
+
+  // Power-ups
+  private pickups = new Map<string, PowerUp>();
+  private fortifiedWalls = new Map<string, number>(); // Brick walls turned to concrete by a shovel -> revert timestamp
+  private nextPickupId = 0;
+  private nextPickupSpawnTime = Date.now();
+  private readonly PICKUP_SPAWN_INTERVAL = 8000; // ms
+  private readonly PICKUP_LIFETIME = 20000; // ms
+  private readonly MAX_PICKUPS = 8;
+  private readonly PICKUP_RADIUS = 32;
   
-  // Input handling
-  private playerInputs = new Map<string, PlayerInput>();
+  // Input handling: every input is one fixed simulation step, queued in sequence order
+  private playerInputs = new Map<string, PlayerInput[]>();
+  private inputCredits = new Map<string, number>(); // Steps a player may still consume (token bucket)
   private playerLastShootTime = new Map<string, number>();
+  private readonly MAX_QUEUED_INPUTS = 10;
+  private readonly MAX_INPUT_CREDITS = 3; // Lets a client catch up after jitter without speeding up
   private currentTick = 0;
   private lastTickTime = Date.now();
-  private readonly TICK_RATE = 25; // 25 Hz
-  private readonly TICK_DURATION = 1000 / 25;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private readonly TICK_RATE = TICK_RATE;
+  private readonly TICK_DURATION = 1000 / TICK_RATE;
+
+  // Constants (units per second), shared with client-side prediction
+  private readonly ROTATION_SPEED = ROTATION_SPEED;
+  private readonly BULLET_SPEED = BULLET_SPEED;
+  private readonly MAX_TANK_SPEED = Math.max(TANK_SPEED, ...TANK_CLASSES.map(tankClass => TANK_CLASS_STATS[tankClass].speed));
+  private readonly RESPAWN_DELAY: number; // ms
+  private readonly SPAWN_PROTECTION: number; // ms
+  private readonly MIN_SPAWN_DISTANCE = 600; // Preferred clearance from enemy tanks
+  private readonly BULLET_CLASH_DISTANCE = 10; // Opposing bullets passing closer than this cancel out
+  private readonly RICOCHET_BOUNCES: number; // 0 when bullets stop at concrete
+  private readonly ASSIST_WINDOW = 10000; // ms a hit still earns an assist for
+  private damageLog = new Map<string, Map<string, number>>(); // Victim -> enemies who hit it this life -> time (ms) of their latest hit
+
+  // Game mode and match state
+  private readonly mode: GameMode;
+  private readonly FRIENDLY_FIRE: boolean;
+  private readonly SCORE_LIMIT: number; // Team kills that win a match
+  private readonly TIME_LIMIT: number; // ms, 0 for no limit
+  private readonly MATCH_RESTART_DELAY = 10000; // ms between matches
+  private teamScores = new Map<Team, number>();
+  private matchEndsAt = 0;
+  private intermissionUntil = 0; // While set, the last match is over and the next hasn't started
+  private bases: MapObject[] = []; // One per team in 'base' mode, the players' one in 'coop'
 
-  // Constants (units per second)
-  private readonly TANK_SPEED = 3.5 * 25 * 3.2; // ~140 units/sec
-  private readonly ROTATION_SPEED = 0.1 * 25 * 3.6; // ~4.5 rad/sec
-  private readonly BULLET_SPEED = 5 * 25 * 5; // ~312.5 units/sec
+  // Co-op stages
+  private stageIndex = 0;
+  private pendingEnemies: string[] = []; // Kinds yet to arrive this stage, in order
+  private nextEnemySpawnAt = 0;
+  private nextEnemyId = 1;
+  private enemyGates: SpawnPoint[] = [];
+  private nextGate = 0;
+  private coopOver = false; // The run ended (base lost or last stage cleared) and restarts after the break
 
-  constructor() {
+  // Lag compensation
+  private positionHistory: PositionHistory;
+  private playerLatency = new Map<string, number>(); // Smoothed round-trip time (ms)
+  private readonly MAX_REWIND: number; // ms
+  private readonly INTERPOLATION_DELAY: number; // ms, must match the client's NetworkInterpolation delay
+
+  constructor(map: MapDefinition = CLASSIC_MAP) {
     super();
-    // Initialize map objects based on environment variable
-    // ADD_MAP_OBJECTS defaults to true if not set (backward compatibility)
-    const addMapObjects = process.env.ADD_MAP_OBJECTS !== undefined 
-      ? process.env.ADD_MAP_OBJECTS.toLowerCase() === 'true'
-      : true;
+    this.map = map;
+    this.WORLD_WIDTH = map.width;
+    this.WORLD_HEIGHT = map.height;
+
+    // RESPAWN_DELAY_MS controls how long a destroyed tank stays out of the arena
+    const respawnDelay = Number(process.env.RESPAWN_DELAY_MS);
+    this.RESPAWN_DELAY = Number.isFinite(respawnDelay) && respawnDelay >= 0 ? respawnDelay : 3000;
+
+    // SPAWN_PROTECTION_MS controls how long a freshly spawned tank is invulnerable
+    const spawnProtection = Number(process.env.SPAWN_PROTECTION_MS);
+    this.SPAWN_PROTECTION = Number.isFinite(spawnProtection) && spawnProtection >= 0 ? spawnProtection : 3000;
 
-    const mapLayout = generateMapLayout(addMapObjects);
+    // LAG_COMPENSATION_MAX_MS caps how far back bullet hits may be rewound (0 disables)
+    const maxRewind = Number(process.env.LAG_COMPENSATION_MAX_MS);
+    this.MAX_REWIND = Number.isFinite(maxRewind) && maxRewind >= 0 ? maxRewind : 250;
+    const interpolationDelay = Number(process.env.CLIENT_INTERPOLATION_DELAY_MS);
+    this.INTERPOLATION_DELAY = Number.isFinite(interpolationDelay) && interpolationDelay >= 0 ? interpolationDelay : 100;
+    this.positionHistory = new PositionHistory(Math.ceil(this.MAX_REWIND / this.TICK_DURATION) + 2);
+
+    // GAME_MODE selects free-for-all ('ffa', default), team deathmatch ('tdm'), base defence ('base') or co-op waves ('coop')
+    const mode = process.env.GAME_MODE as GameMode;
+    this.mode = GAME_MODES.includes(mode) ? mode : 'ffa';
+    // FRIENDLY_FIRE lets bullets damage teammates
+    this.FRIENDLY_FIRE = process.env.FRIENDLY_FIRE?.toLowerCase() === 'true';
+    // RICOCHET_BOUNCES lets bullets bounce off concrete that many times (0 disables); a map's own setting wins
+    const bounces = Number(process.env.RICOCHET_BOUNCES);
+    this.RICOCHET_BOUNCES = map.ricochet ?? (Number.isInteger(bounces) && bounces >= 0 ? bounces : 0);
+    // TEAM_SCORE_LIMIT and MATCH_TIME_LIMIT_S end a team match (0 disables either)
+    const scoreLimit = Number(process.env.TEAM_SCORE_LIMIT);
+    this.SCORE_LIMIT = Number.isInteger(scoreLimit) && scoreLimit >= 0 ? scoreLimit : 30;
+    const timeLimit = Number(process.env.MATCH_TIME_LIMIT_S);
+    this.TIME_LIMIT = (Number.isFinite(timeLimit) && timeLimit >= 0 ? timeLimit : 600) * 1000;
+
+    // Bases, their brick rings and co-op enemy gates replace whatever the layout had there
+    const { width, height } = map;
+    const baseObjects = this.mode === 'base' ? [...generateBase(Team.RED, 'top', width, height), ...generateBase(Team.BLUE, 'bottom', width, height)]
+      : this.mode === 'coop' ? generateBase(Team.RED, 'bottom', width, height)
+      : [];
+    this.enemyGates = this.mode === 'coop' ? generateEnemyGates(width) : [];
+    const reserved = [
+      ...baseObjects,
+      ...this.enemyGates.map(gate => ({ x: gate.x - CELL_SIZE, y: gate.y - CELL_SIZE, width: CELL_SIZE * 2, height: CELL_SIZE * 2 })),
+    ];
+    const mapLayout = buildMapObjects(map)
+      .filter(obj => !reserved.some(area => mapObjectsOverlap(obj, area)))
+      .concat(baseObjects);
+    this.bases = baseObjects.filter(obj => obj.type === MapObjectType.BASE);
     mapLayout.forEach(obj => {
       this.mapObjects.set(obj.id, obj);
+      if (!obj.destroyed) {
+        this.mapGrid.insert(obj, obj);
+      }
     });
+    this.spawnPoints = map.spawns.map(spawn => ({ ...spawn }));
+    this.startMatch(Date.now());
     
     // Fixed server tick loop
     this.lastTickTime = Date.now();
-    setInterval(() => {
+    this.tickInterval = setInterval(() => {
       this.tick();
     }, this.TICK_DURATION);
   }
 
-  private tick() {
+  /**
+   * Stop the tick loop (e.g. when driving ticks manually from a benchmark)
+   */
+  stop() {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Advance the simulation by one tick and emit the resulting snapshot
+   */
+  tick() {
     const now = Date.now();
-    const dt = (now - this.lastTickTime) / 1000;
     this.lastTickTime = now;
 
     this.currentTick++;
-    this.processInputs(dt);
-    this.update(dt);
+    this.processRespawns(now);
+    this.updatePowerUps(now);
+    this.processInputs();
+    this.positionHistory.record(now, this.players.values());
+    this.update(FIXED_DT);
+    this.updateMatch(now);
     this.emit('tick', this.getSnapshot());
   }
 
-  private processInputs(dt: number) {
+  private processInputs() {
     this.players.forEach((player, id) => {
-      const input = this.playerInputs.get(id);
-      if (!input) return;
+      if (player.dead) return;
 
-      // Handle rotation
-      if (input.left) {
-        player.rotation -= this.ROTATION_SPEED * dt;
-      }
-      if (input.right) {
-        player.rotation += this.ROTATION_SPEED * dt;
+      const credits = Math.min((this.inputCredits.get(id) ?? 0) + 1, this.MAX_INPUT_CREDITS);
+      const queue = this.playerInputs.get(id);
+      if (!queue || queue.length === 0) {
+        this.inputCredits.set(id, credits);
+        return;
       }
 
-      // Normalize rotation
-      while (player.rotation < 0) player.rotation += Math.PI * 2;
-      while (player.rotation >= Math.PI * 2) player.rotation -= Math.PI * 2;
-
-      // Handle movement
-      let moved = false;
-      let dx = 0;
-      let dy = 0;
-
-      if (input.up) {
-        dx = Math.sin(player.rotation) * this.TANK_SPEED * dt;
-        dy = -Math.cos(player.rotation) * this.TANK_SPEED * dt;
-        moved = true;
-      } else if (input.down) {
-        dx = -Math.sin(player.rotation) * this.TANK_SPEED * dt;
-        dy = Math.cos(player.rotation) * this.TANK_SPEED * dt;
-        moved = true;
-      }
+      const steps = Math.min(Math.floor(credits), queue.length);
+      this.inputCredits.set(id, credits - steps);
+      queue.splice(0, steps).forEach(input => this.applyInput(player, input));
+    });
+  }
 
-      if (moved) {
-        const proposedX = Math.max(20, Math.min(player.x + dx, this.WORLD_WIDTH - 20));
-        const proposedY = Math.max(20, Math.min(player.y + dy, this.WORLD_HEIGHT - 20));
-
-        // Collision check
-        let hasCollision = false;
-        
-        // Tank-tank collision
-        for (const other of this.players.values()) {
-          if (other.id !== id) {
-            const dist = Math.hypot(other.x - proposedX, other.y - proposedY);
-            if (dist < 40) {
-              hasCollision = true;
-              break;
-            }
-          }
-        }
+  /**
+   * Apply one input as a single fixed simulation step
+   */
+  private applyInput(player: Player, input: PlayerInput) {
+    const next = stepTank(player, input, this.getTankWorld(player.id), this.getTankParams(player));
+    player.rotation = next.rotation;
+    player.vx = next.vx ?? 0;
+    player.vy = next.vy ?? 0;
 
-        // Map collision
-        if (!hasCollision) {
-          for (const mapObj of this.mapObjects.values()) {
-            if (circleCollidesWithMapObject(proposedX, proposedY, this.TANK_RADIUS, mapObj)) {
-              if (mapObj.type === MapObjectType.WATER || mapObj.type === MapObjectType.CONCRETE_WALL || (mapObj.type === MapObjectType.BRICK_WALL && !mapObj.destroyed)) {
-                hasCollision = true;
-                break;
-              }
-            }
-          }
-        }
+    if (next.x !== player.x || next.y !== player.y) {
+      player.x = next.x;
+      player.y = next.y;
+      this.playerGrid.insertCircle(player, player.x, player.y, this.TANK_RADIUS);
+      this.collectPickups(player);
+    }
 
-        if (!hasCollision) {
-          player.x = proposedX;
-          player.y = proposedY;
-        }
+    // Handle shooting
+    if (input.shoot) {
+      // Rate limit shooting server-side (once per the weapon's share of fireCooldown, halved by a star)
+      const now = Date.now();
+      const lastShootTime = this.playerLastShootTime.get(player.id) || 0;
+      const baseCooldown = player.stats.fireCooldown * WEAPONS[player.weapon].cooldown;
+      const cooldown = this.hasEffect(player, PowerUpType.STAR) ? baseCooldown / STAR_FIRE_RATE_MULTIPLIER : baseCooldown;
+      if (now - lastShootTime >= cooldown) {
+        this.fire(player);
+        this.playerLastShootTime.set(player.id, now);
       }
+    }
 
-      // Handle shooting
-      if (input.shoot) {
-        // Simple rate limiting for shooting (e.g., once every 500ms / 12-13 ticks)
-        // track last shoot time per player to enforce server-side
-        const now = Date.now();
-        const lastShootTime = this.playerLastShootTime.get(id) || 0;
-        if (now - lastShootTime >= 500) {
-          this.createBullet(id, player.x, player.y, {
-            x: Math.sin(player.rotation),
-            y: -Math.cos(player.rotation)
-          });
-          this.playerLastShootTime.set(id, now);
-        }
-        // Reset shoot input to avoid multiple bullets per single press if not throttled
-        input.shoot = false;
-      }
+    player.lastInputSequenceId = input.sequenceId;
+  }
 
-      player.lastInputSequenceId = input.sequenceId;
-      // Clear input after processing to only process it once unless a new one arrives
-      // Actually, we might want to keep movement inputs but clear shoot
-      // But requirement says "Server processes only the latest input per player per tick"
-      // If client stops sending input, player should stop moving.
-      // So we should probably clear or mark as processed.
-      // If we clear, and client sends 10 inputs/sec but server ticks at 25Hz, some ticks will have no input.
-      // Requirement says "Throttle client input messages to 10–20 per second".
-      // So we should probably keep the last state and only update it when new message arrives.
-      // For movement, we keep it. For shooting, we must be careful.
-    });
+  /**
+   * Fire the player's weapon: its projectiles fan out evenly around the
+   * barrel (mines are dropped under the tank). A special weapon is swapped
+   * back for the cannon once its ammo is spent.
+   */
+  private fire(player: Player) {
+    const weapon = WEAPONS[player.weapon];
+    const speed = player.stats.bulletSpeed * weapon.speed * (this.hasEffect(player, PowerUpType.STAR) ? STAR_BULLET_SPEED_MULTIPLIER : 1);
+    for (let i = 0; i < weapon.projectiles; i++) {
+      const angle = player.rotation + (i - (weapon.projectiles - 1) / 2) * weapon.spread;
+      this.createBullet(player.id, player.x, player.y, { x: Math.sin(angle), y: -Math.cos(angle) }, speed, player.weapon);
+    }
+
+    if (player.weapon === WeaponType.MINE) {
+      // Clear the oldest mines beyond the limit (bullets are kept in firing order)
+      const mines = Array.from(this.bullets.values()).filter(b => b.playerId === player.id && b.weapon === WeaponType.MINE);
+      mines.slice(0, Math.max(0, mines.length - MAX_MINES_PER_PLAYER)).forEach((mine) => {
+        this.bullets.delete(mine.id);
+        this.emit('bullet-removed', mine.id);
+      });
+    }
+
+    if (player.weapon !== WeaponType.CANNON && --player.ammo <= 0) {
+      this.equipWeapon(player, WeaponType.CANNON);
+    }
+  }
+
+  private equipWeapon(player: Player, weapon: WeaponType) {
+    player.weapon = weapon;
+    player.ammo = WEAPONS[weapon].ammo;
+  }
+
+  private getTankParams(player: Player): TankParams {
+    return {
+      speed: this.hasEffect(player, PowerUpType.SPEED) ? player.stats.speed * SPEED_BOOST_MULTIPLIER : player.stats.speed,
+      rotationSpeed: player.stats.rotationSpeed,
+      radius: this.TANK_RADIUS,
+    };
+  }
+
+  private getTankWorld(playerId: string): TankWorld {
+    return {
+      width: this.WORLD_WIDTH,
+      height: this.WORLD_HEIGHT,
+      collides: (x, y, radius) => this.collidesWithTank(x, y, playerId) || this.collidesWithTerrain(x, y, radius),
+      isIce: (x, y) => this.mapGrid.queryPoint(x, y).some(mapObj => mapObj.type === MapObjectType.ICE && pointInMapObject(x, y, mapObj)),
+    };
   }
 
   handleInput(playerId: string, input: PlayerInput) {
     const player = this.players.get(playerId);
     if (!player) return;
 
-    // Sequence ID validation: only accept newer inputs
-    if (input.sequenceId <= player.lastInputSequenceId) return;
+    // Destroyed tanks cannot act until they respawn, and nobody acts between matches
+    if (player.dead || this.intermissionUntil > 0) return;
+
+    // Sequence ID validation: only accept inputs newer than anything processed or queued
+    let queue = this.playerInputs.get(playerId);
+    if (!queue) {
+      queue = [];
+      this.playerInputs.set(playerId, queue);
+    }
+    const lastSequenceId = queue.length > 0 ? queue[queue.length - 1].sequenceId : player.lastInputSequenceId;
+    if (input.sequenceId <= lastSequenceId) return;
 
-    this.playerInputs.set(playerId, input);
+    queue.push(input);
+    // Drop the oldest inputs if a client floods the queue
+    if (queue.length > this.MAX_QUEUED_INPUTS) {
+      queue.splice(0, queue.length - this.MAX_QUEUED_INPUTS);
+    }
   }
 
-  private getSnapshot() {
+  private getSnapshot(): Snapshot {
     return {
       t: this.currentTick,
       p: Array.from(this.players.values()).map(p => ({
         id: p.id,
-        x: Math.round(p.x),
-        y: Math.round(p.y),
+        x: p.x, // Already quantized by the shared simulation
+        y: p.y,
         r: Math.round(p.rotation * 100),
         h: Math.round(p.health),
         s: p.score,
-        sid: p.lastInputSequenceId
+        sid: p.lastInputSequenceId,
+        d: p.dead ? 1 : 0,
+        pr: this.isSpawnProtected(p) ? 1 : 0,
+        fx: this.getEffectFlags(p),
+        lv: p.extraLives,
+        ai: p.isBot ? 1 : 0,
+        tm: p.team,
+        mh: p.stats.maxHealth,
+        k: p.kind,
+        vx: p.vx,
+        vy: p.vy,
+        tc: p.tankClass,
+        wp: p.weapon,
+        am: p.ammo,
+        kl: p.kills,
+        dt: p.deaths,
+        as: p.assists
       })),
       b: Array.from(this.bullets.values()).map(b => ({
         id: b.id,
@@ -215,209 +439,892 @@ export class Game extends EventEmitter {
         y: Math.round(b.y),
         dx: Math.round(b.direction.x * 100),
         dy: Math.round(b.direction.y * 100),
-        sp: Math.round(b.speed)
-      }))
+        sp: Math.round(b.speed),
+        w: b.weapon
+      })),
+      pk: Array.from(this.pickups.values()).map(pk => ({
+        id: pk.id,
+        k: pk.type,
+        x: Math.round(pk.x),
+        y: Math.round(pk.y),
+        e: Math.max(0, pk.expiresAt - Date.now())
+      })),
+      m: this.getMatchState()
     };
   }
 
-  addPlayer(id: string): Player {
-    const color = this.colors[this.players.size % this.colors.length];
+  private getMatchState(): SnapshotMatch | undefined {
+    if (!isTeamMode(this.mode)) return undefined;
+    const coop = this.mode === 'coop';
+    return {
+      md: this.mode,
+      t1: this.teamScores.get(Team.RED) ?? 0,
+      t2: this.teamScores.get(Team.BLUE) ?? 0,
+      tl: this.TIME_LIMIT > 0 && !coop ? Math.max(0, Math.ceil((this.matchEndsAt - Date.now()) / 1000)) : 0,
+      ov: this.intermissionUntil > 0 ? 1 : 0,
+      st: coop ? this.stageIndex + 1 : 0,
+      en: coop ? this.pendingEnemies.length + this.countCoopEnemies() : 0,
+    };
+  }
+
+  getMode(): GameMode {
+    return this.mode;
+  }
+
+  getMapInfo(): MapInfoPayload {
+    return { name: this.map.name, title: this.map.title, width: this.WORLD_WIDTH, height: this.WORLD_HEIGHT, seed: this.map.seed };
+  }
+
+  /**
+   * Whether a can damage b for points: anyone else in free-for-all, the other team in team modes
+   */
+  isEnemy(a: Player, b: Player): boolean {
+    return a.id !== b.id && (a.team === Team.NONE || a.team !== b.team);
+  }
+
+  /**
+   * Co-op enemies are the blue team; every other tank in co-op is a defender
+   */
+  private isCoopEnemy(player: Player): boolean {
+    return this.mode === 'coop' && player.team === Team.BLUE;
+  }
+
+  private countCoopEnemies(): number {
+    let count = 0;
+    this.players.forEach((player) => {
+      if (this.isCoopEnemy(player)) count++;
+    });
+    return count;
+  }
+
+  /**
+   * Put a new player on the team with fewer players (the trailing team on a tie)
+   */
+  private pickTeam(): Team {
+    if (!isTeamMode(this.mode)) return Team.NONE;
+    if (this.mode === 'coop') return Team.RED;
+    const counts = new Map<Team, number>(TEAMS.map(team => [team, 0]));
+    this.players.forEach((player) => {
+      counts.set(player.team, (counts.get(player.team) ?? 0) + 1);
+    });
+    return TEAMS.reduce((best, team) => {
+      const diff = counts.get(team)! - counts.get(best)!;
+      if (diff !== 0) return diff < 0 ? team : best;
+      return (this.teamScores.get(team) ?? 0) < (this.teamScores.get(best) ?? 0) ? team : best;
+    });
+  }
+
+  /**
+   * Reset scores and the arena for a new match (or co-op run from stage 1)
+   */
+  private startMatch(now: number) {
+    this.intermissionUntil = 0;
+    this.matchEndsAt = now + this.TIME_LIMIT;
+    TEAMS.forEach(team => this.teamScores.set(team, 0));
+    this.players.forEach((player) => {
+      player.score = 0;
+      player.kills = 0;
+      player.deaths = 0;
+      player.assists = 0;
+      this.emit('score-update', { playerId: player.id, score: 0 });
+    });
+    this.resetArena();
+
+    if (this.mode === 'coop') {
+      this.coopOver = false;
+      this.beginStage(0, now);
+    }
+  }
+
+  /**
+   * Clear out co-op enemies, rebuild destroyed bricks and bases, and put every tank back at a spawn point
+   */
+  private resetArena() {
+    this.damageLog.clear();
+    this.players.forEach((player) => {
+      if (this.isCoopEnemy(player)) {
+        this.removePlayer(player.id);
+        return;
+      }
+      player.effects = {};
+      this.equipWeapon(player, WeaponType.CANNON);
+      this.playerGrid.remove(player);
+      player.dead = true;
+    });
+
+    // Every tank is out of the grid, so nothing can be stuck inside a rebuilt wall
+    this.mapObjects.forEach((mapObj) => {
+      if (!mapObj.destroyed && !mapObj.damage) return;
+      mapObj.destroyed = false;
+      if (mapObj.damage) mapObj.damage = 0;
+      this.mapGrid.insert(mapObj, mapObj);
+      this.emit('map-update', { objectId: mapObj.id, destroyed: false, type: mapObj.type, damage: mapObj.damage });
+    });
+
+    this.players.forEach(player => this.respawnPlayer(player));
+  }
+
+  /**
+   * End a team match when a base falls or at the score or time limit, and start
+   * the next one (or the next co-op stage) after a break
+   */
+  private updateMatch(now: number) {
+    if (!isTeamMode(this.mode)) return;
+
+    if (this.intermissionUntil > 0) {
+      if (now < this.intermissionUntil) return;
+      if (this.mode === 'coop' && !this.coopOver) {
+        this.intermissionUntil = 0;
+        this.resetArena();
+        this.beginStage(this.stageIndex + 1, now);
+      } else {
+        this.startMatch(now);
+      }
+      return;
+    }
+
+    if (this.mode === 'coop') {
+      this.updateStage(now);
+      return;
+    }
+
+    const [red, blue] = TEAMS.map(team => this.teamScores.get(team) ?? 0);
+    const fallen = this.bases.filter(base => base.destroyed).map(base => base.team);
+    // Kills decide base matches only when time runs out
+    const scoreReached = this.mode === 'tdm' && this.SCORE_LIMIT > 0 && Math.max(red, blue) >= this.SCORE_LIMIT;
+    const timeUp = this.TIME_LIMIT > 0 && now >= this.matchEndsAt;
+
+    let winner: Team;
+    let reason: MatchEndPayload['reason'];
+    if (fallen.length > 0) {
+      // Both bases falling on the same tick is a draw
+      winner = fallen.length > 1 ? Team.NONE : TEAMS.find(team => team !== fallen[0])!;
+      reason = 'base';
+    } else if (scoreReached || timeUp) {
+      winner = red === blue ? Team.NONE : red > blue ? Team.RED : Team.BLUE;
+      reason = scoreReached ? 'score' : 'time';
+    } else {
+      return;
+    }
+
+    this.intermissionUntil = now + this.MATCH_RESTART_DELAY;
+    this.bullets.clear();
+    this.playerInputs.clear();
+    this.emit('match-end', {
+      winner,
+      reason,
+      scores: Object.fromEntries(this.teamScores),
+      nextMatchIn: this.MATCH_RESTART_DELAY,
+    });
+  }
+
+  private beginStage(index: number, now: number) {
+    this.stageIndex = index;
+    this.pendingEnemies = expandRoster(STAGES[index]);
+    this.nextEnemySpawnAt = now;
+  }
+
+  /**
+   * Co-op: send the stage's enemies in through the gates. The stage is cleared
+   * once all of them are destroyed; the run is over when the base falls or the
+   * last stage is cleared.
+   */
+  private updateStage(now: number) {
+    const baseLost = this.bases.some(base => base.destroyed);
+    const enemiesAlive = this.countCoopEnemies();
+
+    if (baseLost || (this.pendingEnemies.length === 0 && enemiesAlive === 0)) {
+      const lastStage = this.stageIndex === STAGES.length - 1;
+      this.intermissionUntil = now + this.MATCH_RESTART_DELAY;
+      this.bullets.clear();
+      this.playerInputs.clear();
+      if (!baseLost && !lastStage) {
+        this.emit('stage-clear', { stage: this.stageIndex + 1, nextStageIn: this.MATCH_RESTART_DELAY });
+      } else {
+        this.coopOver = true;
+        this.emit('game-over', { victory: !baseLost, stage: this.stageIndex + 1, restartIn: this.MATCH_RESTART_DELAY });
+      }
+      return;
+    }
+
+    const stage = STAGES[this.stageIndex];
+    if (this.pendingEnemies.length > 0 && enemiesAlive < stage.maxAlive && now >= this.nextEnemySpawnAt) {
+      if (this.spawnEnemy(this.pendingEnemies[0])) {
+        this.pendingEnemies.shift();
+        this.nextEnemySpawnAt = now + stage.spawnInterval;
+      }
+    }
+  }
+
+  /**
+   * Bring in a co-op enemy at the next free gate
+   * @returns false if every gate is blocked (retried next tick)
+   */
+  private spawnEnemy(kind: string): boolean {
+    for (let i = 0; i < this.enemyGates.length; i++) {
+      const gateIndex = (this.nextGate + i) % this.enemyGates.length;
+      const gate = this.enemyGates[gateIndex];
+      if (!this.isSpawnPositionFree(gate.x, gate.y)) continue;
+
+      this.nextGate = (gateIndex + 1) % this.enemyGates.length;
+      const player = this.addPlayer(`enemy-${this.nextEnemyId++}`, true, {
+        team: Team.BLUE,
+        kind,
+        stats: this.getEnemyStats(kind),
+        spawn: { ...gate },
+      });
+      player.rotation = 3.14; // Facing down into the arena (a multiple of the 0.01 rotation quantum)
+      this.emit('enemy-spawned', player);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The other team's base while it still stands ('base' and 'coop' modes)
+   */
+  getEnemyBase(player: Player): MapObject | undefined {
+    return this.bases.find(base => base.team !== player.team && !base.destroyed);
+  }
+
+  addPlayer(id: string, isBot: boolean = false, options: AddPlayerOptions = {}): Player {
+    const team = options.team ?? this.pickTeam();
+    const spawn = options.spawn ?? this.getSpawnPosition(id, team);
+    const tankClass = options.tankClass ?? DEFAULT_TANK_CLASS;
+    const stats = options.stats ?? this.getClassStats(tankClass);
     const player: Player = {
       id,
-      x: Math.random() * (this.WORLD_WIDTH - 100) + 50,
-      y: Math.random() * (this.WORLD_HEIGHT - 100) + 50,
+      x: spawn.x,
+      y: spawn.y,
       rotation: 0,
-      color,
-      health: 100,
+      vx: 0,
+      vy: 0,
+      color: TEAM_COLORS[team],
+      health: stats.maxHealth,
       score: 0,
       lastInputSequenceId: 0,
+      dead: false,
+      respawnAt: 0,
+      spawnProtectedUntil: Date.now() + this.SPAWN_PROTECTION,
+      effects: {},
+      extraLives: 0,
+      isBot,
+      team,
+      kind: options.kind ?? '',
+      tankClass,
+      nextClass: tankClass,
+      stats,
+      weapon: WeaponType.CANNON,
+      ammo: 0,
+      kills: 0,
+      deaths: 0,
+      assists: 0,
     };
     this.players.set(id, player);
+    this.playerGrid.insertCircle(player, player.x, player.y, this.TANK_RADIUS);
     return player;
   }
 
-  removePlayer(id: string) {
-    this.players.delete(id);
-    this.playerInputs.delete(id);
-    this.playerLastShootTime.delete(id);
+  /**
+   * Choose the class a player's tank takes when it next respawns
+   */
+  selectClass(playerId: string, tankClass: TankClass) {
+    const player = this.players.get(playerId);
+    if (player) player.nextClass = tankClass;
+  }
+
+  private getClassStats(tankClass: TankClass): TankStats {
+    const { maxHealth, speed, rotationSpeed, fireCooldown, regen } = TANK_CLASS_STATS[tankClass];
+    return { maxHealth, speed, rotationSpeed, bulletSpeed: this.BULLET_SPEED, fireCooldown, regen };
+  }
+
+  private getEnemyStats(kind: string): TankStats {
+    const { maxHealth, speed, bulletSpeed, fireCooldown } = ENEMY_KINDS[kind];
+    return { maxHealth, speed, rotationSpeed: this.ROTATION_SPEED, bulletSpeed, fireCooldown, regen: 0 };
   }
 
   /**
-   * Process player movement command with command ID
-   * Commands are processed sequentially to maintain authoritative state
+   * Update a player's measured round-trip latency (ms)
    */
-  processPlayerCommand(
-    id: string,
-    commandId: number,
-    rotation: number,
-    direction?: 'forward' | 'backward'
-  ): { success: boolean; collided: boolean } {
-    const player = this.players.get(id);
-    if (!player) {
-      return { success: false, collided: false };
+  setPlayerLatency(playerId: string, rtt: number) {
+    if (!this.players.has(playerId) || !Number.isFinite(rtt) || rtt < 0) return;
+    const previous = this.playerLatency.get(playerId);
+    this.playerLatency.set(playerId, previous === undefined ? rtt : previous * 0.8 + rtt * 0.2);
+  }
+
+  /**
+   * How far back a shot from this player should be checked: the shooter saw
+   * remote tanks one round trip plus the interpolation delay in the past
+   */
+  private getRewindTime(playerId: string): number {
+    const latency = this.playerLatency.get(playerId);
+    if (latency === undefined) return 0;
+    return Math.min(latency + this.INTERPOLATION_DELAY, this.MAX_REWIND);
+  }
+
+  /**
+   * Position of a tank as the shooter saw it rewindMs ago, or null if it was not alive then
+   */
+  private getLagCompensatedPosition(player: Player, rewindMs: number): { x: number; y: number; rotation: number } | null {
+    if (rewindMs <= 0) return player;
+    const past = this.positionHistory.getPositionAt(player.id, this.lastTickTime - rewindMs);
+    if (!past) return player;
+    return past.alive ? past : null;
+  }
+
+  private isSpawnProtected(player: Player): boolean {
+    return Date.now() < player.spawnProtectedUntil;
+  }
+
+  private hasEffect(player: Player, type: PowerUpType): boolean {
+    return (player.effects[type] ?? 0) > Date.now();
+  }
+
+  private isInvulnerable(player: Player): boolean {
+    return this.intermissionUntil > 0 || this.isSpawnProtected(player) || this.hasEffect(player, PowerUpType.SHIELD);
+  }
+
+  private getEffectFlags(player: Player): number {
+    let flags = 0;
+    (Object.keys(EFFECT_FLAGS) as PowerUpType[]).forEach((type) => {
+      if (this.hasEffect(player, type)) {
+        flags |= EFFECT_FLAGS[type]!;
+      }
+    });
+    return flags;
+  }
+
+  /**
+   * Check whether a tank centred at (x, y) would overlap another living tank
+   */
+  private collidesWithTank(x: number, y: number, excludeId?: string): boolean {
+    const minDistance = this.TANK_RADIUS * 2;
+    return this.playerGrid.queryRadius(x, y, minDistance).some(other =>
+      other.id !== excludeId && !other.dead && Math.hypot(other.x - x, other.y - y) < minDistance
+    );
+  }
+
+  /**
+   * Check whether a circle at (x, y) overlaps terrain that blocks tanks
+   */
+  private collidesWithTerrain(x: number, y: number, radius: number): boolean {
+    return this.mapGrid.queryRadius(x, y, radius).some(mapObj =>
+      blocksTanks(mapObj) && circleCollidesWithMapObject(x, y, radius, mapObj)
+    );
+  }
+
+  /**
+   * Check that a tank placed at (x, y) would not overlap blocking terrain or another tank
+   */
+  private isSpawnPositionFree(x: number, y: number, excludeId?: string): boolean {
+    if (x < this.TANK_RADIUS || y < this.TANK_RADIUS ||
+        x > this.WORLD_WIDTH - this.TANK_RADIUS || y > this.WORLD_HEIGHT - this.TANK_RADIUS) {
+      return false;
     }
 
-    // Get pending commands queue
-    const pendingCommands = this.playerPendingCommands.get(id) || [];
-    const latestConfirmedId = this.playerCommandIds.get(id) || 0;
+    return !this.collidesWithTank(x, y, excludeId) && !this.collidesWithTerrain(x, y, this.TANK_RADIUS);
+  }
+
+  private distanceToNearestEnemy(x: number, y: number, playerId?: string, team: Team = Team.NONE): number {
+    let nearest = Infinity;
+    this.players.forEach((other) => {
+      if (other.id !== playerId && !other.dead && (team === Team.NONE || other.team !== team)) {
+        nearest = Math.min(nearest, Math.hypot(other.x - x, other.y - y));
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Pick a spawn position for a player.
+   * Designated spawn points that are free and at least MIN_SPAWN_DISTANCE away from
+   * every enemy are preferred; otherwise the free point furthest from enemies wins.
+   * If every designated point is blocked, fall back to validated random positions.
+   */
+  private getSpawnPosition(playerId?: string, team: Team = Team.NONE): SpawnPoint {
+    const candidates = this.getSpawnPointsFor(team)
+      .filter(point => this.isSpawnPositionFree(point.x, point.y, playerId))
+      .map(point => ({ point, clearance: this.distanceToNearestEnemy(point.x, point.y, playerId, team) }));
+
+    if (candidates.length > 0) {
+      const safe = candidates.filter(c => c.clearance >= this.MIN_SPAWN_DISTANCE);
+      if (safe.length > 0) {
+        return { ...safe[Math.floor(Math.random() * safe.length)].point };
+      }
+      candidates.sort((a, b) => b.clearance - a.clearance);
+      return { ...candidates[0].point };
+    }
 
-    // Ignore commands that are older than the latest confirmed (out of order)
-    if (commandId <= latestConfirmedId) {
-      return { success: false, collided: false };
+    for (let attempt = 0; attempt < 50; attempt++) {
+      // Whole units so the spawn is exactly representable in snapshots
+      const x = Math.round(Math.random() * (this.WORLD_WIDTH - 100) + 50);
+      const y = Math.round(Math.random() * (this.WORLD_HEIGHT - 100) + 50);
+      if (this.isSpawnPositionFree(x, y, playerId)) {
+        return { x, y };
+      }
     }
 
-    // Add to pending queue if not already there
-    const existingIndex = pendingCommands.findIndex(cmd => cmd.commandId === commandId);
-    if (existingIndex === -1) {
-      pendingCommands.push({
-        commandId,
-        rotation,
-        direction,
-        timestamp: Date.now(),
+    return { x: this.WORLD_WIDTH / 2, y: this.WORLD_HEIGHT / 2 };
+  }
+
+  /**
+   * In 'base' mode each team spawns on its own base's half of the arena
+   */
+  private getSpawnPointsFor(team: Team): SpawnPoint[] {
+    const base = this.bases.find(b => b.team === team);
+    if (!base) return this.spawnPoints;
+    const baseInTopHalf = base.y < this.WORLD_HEIGHT / 2;
+    return this.spawnPoints.filter(point => (point.y < this.WORLD_HEIGHT / 2) === baseInTopHalf);
+  }
+
+  /**
+   * Take a destroyed tank out of play. The player keeps their socket and score
+   * and re-enters the arena after RESPAWN_DELAY.
+   */
+  private killPlayer(player: Player, killerId?: string) {
+    // An extra life skips the respawn delay
+    const respawnIn = player.extraLives > 0 ? 0 : this.RESPAWN_DELAY;
+    if (player.extraLives > 0) {
+      player.extraLives--;
+    }
+
+    player.dead = true;
+    player.health = 0;
+    player.deaths++;
+    player.respawnAt = Date.now() + respawnIn;
+    this.damageLog.delete(player.id);
+    player.effects = {};
+    this.equipWeapon(player, WeaponType.CANNON);
+    this.playerInputs.delete(player.id);
+    this.playerGrid.remove(player);
+    this.emit('player-died', { id: player.id, killerId, respawnIn });
+
+    // Co-op enemies don't come back
+    if (this.isCoopEnemy(player)) {
+      this.removePlayer(player.id);
+    }
+  }
+
+  /**
+   * Apply damage to a player and handle the kill if it is fatal
+   * @param cause - What dealt the hit, named in the kill feed if it is fatal
+   * @param side - Armor side the hit landed on, reported to clients (damage is already scaled)
+   * @param deflected - The hit glanced off and does no damage, but is still reported
+   */
+  private damagePlayer(player: Player, amount: number, attackerId: string, cause: DamageCause, side?: HitSide, deflected = false) {
+    if (player.dead || this.isInvulnerable(player)) return;
+
+    const attacker = this.players.get(attackerId);
+    const friendly = attacker !== undefined && attacker.id !== player.id && !this.isEnemy(attacker, player);
+    if (friendly && !this.FRIENDLY_FIRE) return;
+
+    // Remember who hurt the tank, for assists
+    if (attacker && attacker.id !== player.id && !friendly && amount > 0) {
+      const log = this.damageLog.get(player.id) ?? new Map<string, number>();
+      log.set(attacker.id, Date.now());
+      this.damageLog.set(player.id, log);
+    }
+
+    player.health -= amount;
+    this.emit('health-update', {
+      id: player.id,
+      health: Math.round(player.health),
+      attackerId,
+      ...(side ? { side } : {}),
+      ...(deflected ? { deflected } : {}),
+    });
+
+    if (player.health <= 0) {
+      // Team kills score nothing
+      const killer = friendly ? undefined : attacker;
+      if (killer) {
+        killer.score += this.isCoopEnemy(player) ? ENEMY_KINDS[player.kind].score : 100;
+        if (killer.team !== Team.NONE) {
+          this.teamScores.set(killer.team, (this.teamScores.get(killer.team) ?? 0) + 1);
+        }
+        if (!killer.isBot) {
+          this.saveScore(killer.id, killer.score);
+        }
+        this.emit('score-update', { playerId: killer.id, score: killer.score });
+        killer.kills++;
+      }
+      this.emit('kill', {
+        killerId: attacker?.id,
+        victimId: player.id,
+        assisterIds: this.creditAssists(player, killer),
+        weapon: cause,
       });
-      // Sort by command ID to process in order
-      pendingCommands.sort((a, b) => a.commandId - b.commandId);
+      this.killPlayer(player, attackerId);
     }
+  }
 
-    // Process commands sequentially
-    let collided = false;
-    // For command processing, we assume a constant dt based on TICK_RATE (25Hz)
-    // because each command is essentially one tick's worth of movement from the client.
-    const commandDt = 1 / 25; 
+  /**
+   * Credit an assist to every enemy other than the killer who hit a destroyed
+   * tank within the last ASSIST_WINDOW
+   * @returns The assisting players' ids
+   */
+  private creditAssists(victim: Player, killer?: Player): string[] {
+    const since = Date.now() - this.ASSIST_WINDOW;
+    const assisters: string[] = [];
+    this.damageLog.get(victim.id)?.forEach((hitAt, attackerId) => {
+      const assister = this.players.get(attackerId);
+      if (!assister || assister === killer || hitAt < since) return;
+      assister.assists++;
+      assisters.push(assister.id);
+    });
+    return assisters;
+  }
 
-    while (pendingCommands.length > 0) {
-      const nextCommand = pendingCommands[0];
-      
-      // Only process if this is the next expected command
-      if (nextCommand.commandId !== latestConfirmedId + 1) {
-        break;
+  private updatePowerUps(now: number) {
+    // Expire uncollected pickups
+    this.pickups.forEach((pickup, id) => {
+      if (now >= pickup.expiresAt) {
+        this.pickups.delete(id);
       }
+    });
 
-      // Apply the command
-      player.rotation = nextCommand.rotation;
-      let moved = false;
-
-      if (nextCommand.direction) {
-        const dirX = Math.sin(player.rotation);
-        const dirY = -Math.cos(player.rotation);
-
-        // Save original position
-        const originalX = player.x;
-        const originalY = player.y;
-
-        // Compute proposed new position
-        let proposedX = player.x;
-        let proposedY = player.y;
-        if (nextCommand.direction === 'forward') {
-          proposedX += dirX * this.TANK_SPEED * commandDt;
-          proposedY += dirY * this.TANK_SPEED * commandDt;
-        } else {
-          proposedX -= dirX * this.TANK_SPEED * commandDt;
-          proposedY -= dirY * this.TANK_SPEED * commandDt;
+    // Drop expired timed effects
+    this.players.forEach((player) => {
+      (Object.keys(player.effects) as PowerUpType[]).forEach((type) => {
+        if ((player.effects[type] ?? 0) <= now) {
+          delete player.effects[type];
+        }
+      });
+    });
+
+    // Revert shovel fortifications
+    this.fortifiedWalls.forEach((revertAt, objectId) => {
+      if (now >= revertAt) {
+        const mapObj = this.mapObjects.get(objectId);
+        if (mapObj) {
+          mapObj.type = MapObjectType.BRICK_WALL;
+          this.emit('map-update', { objectId, destroyed: !!mapObj.destroyed, type: mapObj.type, damage: mapObj.damage });
         }
+        this.fortifiedWalls.delete(objectId);
+      }
+    });
+
+    // Spawn new pickups on a timer
+    if (now >= this.nextPickupSpawnTime) {
+      this.nextPickupSpawnTime = now + this.PICKUP_SPAWN_INTERVAL;
+      if (this.pickups.size < this.MAX_PICKUPS) {
+        this.spawnPickup(now);
+      }
+    }
+  }
+
+  private spawnPickup(now: number) {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const x = Math.random() * (this.WORLD_WIDTH - 200) + 100;
+      const y = Math.random() * (this.WORLD_HEIGHT - 200) + 100;
+      if (this.isSpawnPositionFree(x, y)) {
+        const pickup: PowerUp = {
+          id: `pickup-${this.nextPickupId++}`,
+          type: randomPowerUpType(),
+          x,
+          y,
+          expiresAt: now + this.PICKUP_LIFETIME,
+        };
+        this.pickups.set(pickup.id, pickup);
+        return;
+      }
+    }
+  }
+
+  private collectPickups(player: Player) {
+    this.pickups.forEach((pickup, id) => {
+      if (Math.hypot(pickup.x - player.x, pickup.y - player.y) < this.PICKUP_RADIUS) {
+        this.pickups.delete(id);
+        this.applyPowerUp(player, pickup.type);
+        this.emit('powerup-collected', { playerId: player.id, pickupId: id, type: pickup.type });
+      }
+    });
+  }
+
+  private applyPowerUp(player: Player, type: PowerUpType) {
+    const now = Date.now();
+    const duration = POWER_UP_DURATIONS[type];
 
-        // Keep within bounds
-        proposedX = Math.max(20, Math.min(proposedX, this.WORLD_WIDTH - 20));
-        proposedY = Math.max(20, Math.min(proposedY, this.WORLD_HEIGHT - 20));
+    switch (type) {
+      case PowerUpType.STAR:
+      case PowerUpType.SHIELD:
+      case PowerUpType.SPEED:
+        player.effects[type] = now + duration!;
+        break;
 
-        // Tank-tank collision check
-        const minDistance = 40;
-        let hasCollision = false;
+      case PowerUpType.BOMB:
         this.players.forEach((other) => {
-          if (other.id !== id && !hasCollision) {
-            const dx = other.x - proposedX;
-            const dy = other.y - proposedY;
-            const dist = Math.hypot(dx, dy);
-            if (dist < minDistance) {
-              hasCollision = true;
-            }
+          if (this.isEnemy(player, other)) {
+            this.damagePlayer(other, BOMB_DAMAGE, player.id, 'bomb');
           }
         });
+        break;
 
-        // Map object collision check
-        if (!hasCollision) {
-          this.mapObjects.forEach((mapObj) => {
-            if (!hasCollision && circleCollidesWithMapObject(proposedX, proposedY, this.TANK_RADIUS, mapObj)) {
-              // Water and concrete walls block movement
-              if (mapObj.type === MapObjectType.WATER || mapObj.type === MapObjectType.CONCRETE_WALL) {
-                hasCollision = true;
-              }
-              // Brick walls block movement (if not destroyed)
-              if (mapObj.type === MapObjectType.BRICK_WALL && !mapObj.destroyed) {
-                hasCollision = true;
-              }
-              // Trees don't block movement (only visual)
-            }
-          });
-        }
-
-        if (!hasCollision) {
-          player.x = proposedX;
-          player.y = proposedY;
-          moved = true;
-        } else {
-          // Collision occurred - keep original position
-          player.x = originalX;
-          player.y = originalY;
-          collided = true;
-        }
-      } else {
-        // Rotation only, no movement
-        moved = true;
-      }
+      case PowerUpType.SHOVEL:
+        this.fortifyWalls(player, now + duration!);
+        break;
 
-      // Mark command as confirmed
-      this.playerCommandIds.set(id, nextCommand.commandId);
-      pendingCommands.shift();
+      case PowerUpType.EXTRA_LIFE:
+        player.extraLives = Math.min(MAX_EXTRA_LIVES, player.extraLives + 1);
+        break;
 
-      // If collision occurred, stop processing further commands
-      if (collided) {
+      case PowerUpType.SHOTGUN:
+      case PowerUpType.HEAVY:
+      case PowerUpType.MINES:
+        this.equipWeapon(player, WEAPON_PICKUPS[type]!);
         break;
+    }
+  }
+
+  /**
+   * Turn brick walls around the player into concrete until revertAt.
+   * Destroyed and chipped bricks are rebuilt unless a tank is standing in the cell.
+   */
+  private fortifyWalls(player: Player, revertAt: number) {
+    this.mapObjects.forEach((mapObj) => {
+      const isBrick = mapObj.type === MapObjectType.BRICK_WALL || this.fortifiedWalls.has(mapObj.id);
+      if (!isBrick) return;
+
+      const centerX = mapObj.x + mapObj.width / 2;
+      const centerY = mapObj.y + mapObj.height / 2;
+      if (Math.hypot(centerX - player.x, centerY - player.y) > SHOVEL_RADIUS) return;
+
+      if (mapObj.destroyed || mapObj.damage) {
+        const occupied = this.playerGrid.queryRect(mapObj.x - this.TANK_RADIUS, mapObj.y - this.TANK_RADIUS, mapObj.width + this.TANK_RADIUS * 2, mapObj.height + this.TANK_RADIUS * 2)
+          .some(tank => !tank.dead && circleCollidesWithMapObject(tank.x, tank.y, this.TANK_RADIUS, { ...mapObj, destroyed: false, damage: 0 }));
+        if (occupied) return;
       }
+
+      mapObj.type = MapObjectType.CONCRETE_WALL;
+      mapObj.destroyed = false;
+      mapObj.damage = 0;
+      this.mapGrid.insert(mapObj, mapObj);
+      this.fortifiedWalls.set(mapObj.id, revertAt);
+      this.emit('map-update', { objectId: mapObj.id, destroyed: false, type: mapObj.type, damage: 0 });
+    });
+  }
+
+  /**
+   * Bounce a bullet off the concrete it just flew into: it goes back to where
+   * it was, with its direction mirrored along each axis whose movement alone
+   * would have taken it into concrete. That is correct off flat walls made of
+   * several cells; a bullet clipping a lone corner turns straight back.
+   */
+  private ricochet(bullet: Bullet, dt: number) {
+    const prevX = bullet.x - bullet.direction.x * bullet.speed * dt;
+    const prevY = bullet.y - bullet.direction.y * bullet.speed * dt;
+    let flipX = this.isConcreteAt(bullet.x, prevY);
+    let flipY = this.isConcreteAt(prevX, bullet.y);
+    if (!flipX && !flipY) {
+      flipX = true;
+      flipY = true;
     }
+    bullet.direction = {
+      x: flipX ? -bullet.direction.x : bullet.direction.x,
+      y: flipY ? -bullet.direction.y : bullet.direction.y,
+    };
+    bullet.x = prevX;
+    bullet.y = prevY;
+    bullet.bouncesLeft--;
+  }
+
+  /**
+   * Send a glancing shell off the hull: it is put back where it met the hull
+   * and mirrored about the hull's surface there
+   */
+  private deflect(bullet: Bullet, hull: { x: number; y: number }, impact: Impact) {
+    const along = bullet.direction.x * impact.normal.x + bullet.direction.y * impact.normal.y;
+    bullet.direction = {
+      x: bullet.direction.x - 2 * along * impact.normal.x,
+      y: bullet.direction.y - 2 * along * impact.normal.y,
+    };
+    bullet.x = hull.x + impact.x;
+    bullet.y = hull.y + impact.y;
+  }
+
+  /**
+   * Set off an explosive projectile where it stopped: every tank but its
+   * owner's within the splash radius takes its damage (armor doesn't soften a
+   * blast), and bricks and bushes the blast reaches are destroyed outright
+   */
+  private explode(bullet: Bullet) {
+    const { damage, splashRadius } = WEAPONS[bullet.weapon];
+    this.playerGrid.queryRadius(bullet.x, bullet.y, splashRadius + this.TANK_RADIUS).forEach((player) => {
+      if (player.id !== bullet.playerId && Math.hypot(player.x - bullet.x, player.y - bullet.y) < splashRadius + this.TANK_RADIUS) {
+        this.damagePlayer(player, damage, bullet.playerId, bullet.weapon, sideFacing(player.rotation, bullet.x - player.x, bullet.y - player.y));
+      }
+    });
+
+    this.mapGrid.queryRadius(bullet.x, bullet.y, splashRadius).forEach((mapObj) => {
+      if (mapObj.destroyed || (mapObj.type !== MapObjectType.BRICK_WALL && mapObj.type !== MapObjectType.BUSH)) return;
+      // Distance to the nearest point of the cell
+      const nearestX = Math.max(mapObj.x, Math.min(bullet.x, mapObj.x + mapObj.width));
+      const nearestY = Math.max(mapObj.y, Math.min(bullet.y, mapObj.y + mapObj.height));
+      if (Math.hypot(nearestX - bullet.x, nearestY - bullet.y) >= splashRadius) return;
+
+      mapObj.destroyed = true;
+      if (mapObj.type === MapObjectType.BRICK_WALL) mapObj.damage = BRICK_FULLY_DAMAGED;
+      this.mapGrid.remove(mapObj);
+      this.emit('map-update', { objectId: mapObj.id, destroyed: true, type: mapObj.type, damage: mapObj.damage });
+    });
+
+    this.emit('explosion', { x: bullet.x, y: bullet.y, radius: splashRadius });
+  }
 
-    return { success: true, collided };
+  private isConcreteAt(x: number, y: number): boolean {
+    return this.mapGrid.queryPoint(x, y).some(obj => obj.type === MapObjectType.CONCRETE_WALL && pointInMapObject(x, y, obj));
   }
 
   /**
-   * Legacy method for backward compatibility (deprecated)
+   * Cancel out opposing bullets that met during the last step: both are
+   * removed and clients are told where, for a spark, and explosives go off
+   * there. Teammates' bullets pass through each other, and mines lying on the
+   * ground are never hit.
    */
-  movePlayer(id: string, x: number, y: number, rotation: number, direction?: 'forward' | 'backward') {
+  private collideBullets(dt: number) {
+    if (this.bullets.size < 2) return;
+    const grid = new SpatialGrid<Bullet>(CELL_SIZE);
+    let maxStep = 0;
+    this.bullets.forEach((bullet) => {
+      if (bullet.speed === 0) return; // Mines
+      grid.insertCircle(bullet, bullet.x, bullet.y, this.BULLET_CLASH_DISTANCE / 2);
+      maxStep = Math.max(maxStep, bullet.speed * dt);
+    });
+
+    this.bullets.forEach((bullet) => {
+      if (!this.bullets.has(bullet.id) || bullet.speed === 0) return; // Cancelled by an earlier one, or a mine
+      const other = grid.queryRadius(bullet.x, bullet.y, this.BULLET_CLASH_DISTANCE + maxStep * 2).find(candidate =>
+        candidate !== bullet && this.bullets.has(candidate.id) && this.areOpposing(bullet, candidate) &&
+        this.closestApproach(bullet, candidate, dt) < this.BULLET_CLASH_DISTANCE
+      );
+      if (!other) return;
+
+      this.bullets.delete(bullet.id);
+      this.bullets.delete(other.id);
+      this.emit('bullet-removed', bullet.id);
+      this.emit('bullet-removed', other.id);
+      const x = (bullet.x + other.x) / 2;
+      const y = (bullet.y + other.y) / 2;
+      this.emit('bullet-clash', { x, y });
+      [bullet, other].forEach((shell) => {
+        if (WEAPONS[shell.weapon].splashRadius === 0) return;
+        shell.x = x;
+        shell.y = y;
+        this.explode(shell);
+      });
+    });
+  }
+
+  private areOpposing(a: Bullet, b: Bullet): boolean {
+    if (a.playerId === b.playerId) return false;
+    const shooterA = this.players.get(a.playerId);
+    const shooterB = this.players.get(b.playerId);
+    // Bullets of tanks that have left the game clash with everyone's
+    return !shooterA || !shooterB || this.isEnemy(shooterA, shooterB);
+  }
+
+  /**
+   * Closest two bullets came during a step of length dt ending now (fast
+   * bullets can cross each other within one step)
+   */
+  private closestApproach(a: Bullet, b: Bullet, dt: number): number {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const mx = (a.direction.x * a.speed - b.direction.x * b.speed) * dt; // Relative movement over the step
+    const my = (a.direction.y * a.speed - b.direction.y * b.speed) * dt;
+    const lengthSq = mx * mx + my * my;
+    // Fraction of the step back from now at which they were closest
+    const t = lengthSq > 0 ? Math.min(1, Math.max(0, (dx * mx + dy * my) / lengthSq)) : 0;
+    return Math.hypot(dx - mx * t, dy - my * t);
+  }
+
+  /**
+   * Knock out the brick quarter a bullet hit and the one beside it across the
+   * bullet's path (the row for a vertical shot, the column for a horizontal
+   * one), so a brick takes two hits from one side. A brick with no quarters
+   * left is destroyed.
+   */
+  private chipBrick(brick: MapObject, bullet: Bullet) {
+    const quarter = brickQuarterAt(brick, bullet.x, bullet.y);
+    const horizontal = Math.abs(bullet.direction.x) >= Math.abs(bullet.direction.y);
+    const beside = horizontal ? quarter ^ 2 : quarter ^ 1;
+    brick.damage = (brick.damage ?? 0) | (1 << quarter) | (1 << beside);
+    if (brick.damage === BRICK_FULLY_DAMAGED) {
+      brick.destroyed = true;
+      this.mapGrid.remove(brick);
+    }
+  }
+
+  private respawnPlayer(player: Player) {
+    if (!this.isCoopEnemy(player)) {
+      player.tankClass = player.nextClass;
+      player.stats = this.getClassStats(player.tankClass);
+    }
+    const spawn = this.getSpawnPosition(player.id, player.team);
+    player.x = spawn.x;
+    player.y = spawn.y;
+    player.rotation = 0;
+    player.vx = 0;
+    player.vy = 0;
+    player.health = player.stats.maxHealth;
+    player.dead = false;
+    player.respawnAt = 0;
+    player.spawnProtectedUntil = Date.now() + this.SPAWN_PROTECTION;
+    this.playerGrid.insertCircle(player, player.x, player.y, this.TANK_RADIUS);
+    const { id, x, y, rotation, color, health, score } = player;
+    const payload: PlayerPayload = { id, x, y, rotation, color, health, score };
+    this.emit('player-respawned', payload);
+  }
+
+  private processRespawns(now: number) {
+    this.players.forEach((player) => {
+      if (player.dead && now >= player.respawnAt) {
+        this.respawnPlayer(player);
+      }
+    });
+  }
+
+  removePlayer(id: string) {
     const player = this.players.get(id);
     if (player) {
-      player.rotation = rotation;
-      if (direction) {
-        const speed = 3.5; // Reduced from 5 (30% reduction for better control)
-        const dirX = Math.sin(rotation);
-        const dirY = -Math.cos(rotation);
-        let proposedX = player.x;
-        let proposedY = player.y;
-        if (direction === 'forward') {
-          proposedX += dirX * speed;
-          proposedY += dirY * speed;
-        } else {
-          proposedX -= dirX * speed;
-          proposedY -= dirY * speed;
-        }
-        proposedX = Math.max(20, Math.min(proposedX, this.WORLD_WIDTH - 20));
-        proposedY = Math.max(20, Math.min(proposedY, this.WORLD_HEIGHT - 20));
-        player.x = proposedX;
-        player.y = proposedY;
-      } else {
-        player.x = x;
-        player.y = y;
-      }
+      this.playerGrid.remove(player);
     }
+    // Mines don't outlive the tank that laid them
+    this.bullets.forEach((bullet, bulletId) => {
+      if (bullet.playerId === id && bullet.weapon === WeaponType.MINE) {
+        this.bullets.delete(bulletId);
+        this.emit('bullet-removed', bulletId);
+      }
+    });
+    this.players.delete(id);
+    this.damageLog.delete(id);
+    this.playerInputs.delete(id);
+    this.inputCredits.delete(id);
+    this.playerLatency.delete(id);
+    this.playerLastShootTime.delete(id);
   }
 
-  createBullet(playerId: string, x: number, y: number, direction: { x: number; y: number }): Bullet {
+  createBullet(
+    playerId: string,
+    x: number,
+    y: number,
+    direction: { x: number; y: number },
+    speed: number = this.BULLET_SPEED,
+    weapon: WeaponType = WeaponType.CANNON
+  ): Bullet {
+    const shooter = this.players.get(playerId);
     const bullet: Bullet = {
-      id: `${playerId}-${Date.now()}`,
+      id: `${playerId}-${this.nextBulletId++}`,
       playerId,
       x,
       y,
       direction,
-      speed: this.BULLET_SPEED,
+      speed,
+      // Mines go off when a tank reaches them now, not where the owner saw it
+      rewindMs: speed > 0 ? this.getRewindTime(playerId) : 0,
+      powered: shooter !== undefined && this.hasEffect(shooter, PowerUpType.STAR),
+      bouncesLeft: this.RICOCHET_BOUNCES,
+      weapon,
     };
     this.bullets.set(bullet.id, bullet);
     return bullet;
@@ -431,43 +1338,38 @@ export class Game extends EventEmitter {
     };
   }
 
-  getMapObjects(): MapObject[] {
-    return Array.from(this.mapObjects.values());
+  getPlayer(id: string): Player | undefined {
+    return this.players.get(id);
+  }
+
+  getPlayers(): Player[] {
+    return Array.from(this.players.values());
   }
 
   /**
-   * Get game state update with command confirmation for a specific player
-   * @param playerId The player ID to get confirmation for
-   * @param includeAuthoritativeState Whether to include full position (for collisions/events)
+   * Trace a bullet's path between two points: 'blocked' if concrete is in the
+   * way, 'brick' if only brick (which a bullet can shoot through) is
    */
-  getStateUpdate(playerId: string, includeAuthoritativeState: boolean = false) {
-    const latestConfirmedCommandId = this.playerCommandIds.get(playerId) || 0;
-    const player = this.players.get(playerId);
-    
-    const state: any = {
-      players: Array.from(this.players.values()),
-      bullets: Array.from(this.bullets.values()),
-      mapObjects: Array.from(this.mapObjects.values()),
-      latestConfirmedCommandId,
-    };
+  getLineOfSight(fromX: number, fromY: number, toX: number, toY: number): LineOfSight {
+    const distance = Math.hypot(toX - fromX, toY - fromY);
+    const steps = Math.ceil(distance / (CELL_SIZE / 4));
+    let result: LineOfSight = 'clear';
 
-    // Include authoritative state if requested (collisions, events, etc.)
-    if (includeAuthoritativeState && player) {
-      state.authoritativeState = {
-        x: player.x,
-        y: player.y,
-        rotation: player.rotation,
-      };
+    for (let i = 1; i < steps; i++) {
+      const x = fromX + (toX - fromX) * i / steps;
+      const y = fromY + (toY - fromY) * i / steps;
+      for (const mapObj of this.mapGrid.queryPoint(x, y)) {
+        if (!pointInMapObject(x, y, mapObj)) continue;
+        if (mapObj.type === MapObjectType.CONCRETE_WALL || mapObj.type === MapObjectType.BASE) return 'blocked';
+        if (mapObj.type === MapObjectType.STEEL && !mapObj.destroyed) return 'blocked';
+        if ((mapObj.type === MapObjectType.BRICK_WALL || mapObj.type === MapObjectType.BUSH) && !mapObj.destroyed) result = 'brick';
+      }
     }
-
-    return state;
+    return result;
   }
 
-  /**
-   * Get latest confirmed command ID for a player
-   */
-  getLatestConfirmedCommandId(playerId: string): number {
-    return this.playerCommandIds.get(playerId) || 0;
+  getMapObjects(): MapObject[] {
+    return Array.from(this.mapObjects.values());
   }
 
   private update(dt: number) {
@@ -487,29 +1389,62 @@ export class Game extends EventEmitter {
           return;
         }
 
-        // Check bullet collision with map objects (except water and trees)
+        // Check bullet collision with map objects (except water and trees); mines lie still wherever they were dropped
         let bulletHit = false;
-        this.mapObjects.forEach((mapObj) => {
+        const terrain = bullet.speed > 0 ? this.mapGrid.queryPoint(bullet.x, bullet.y) : [];
+        terrain.forEach((mapObj) => {
           if (!bulletHit && pointInMapObject(bullet.x, bullet.y, mapObj)) {
-            // Bullets fly over water (no collision)
-            if (mapObj.type === MapObjectType.WATER || mapObj.type === MapObjectType.TREE) {
+            // Bullets fly over water, trees and ice (no collision)
+            if (mapObj.type === MapObjectType.WATER || mapObj.type === MapObjectType.TREE || mapObj.type === MapObjectType.ICE) {
               return;
             }
 
-            // Bullets hit concrete walls (blocked, no destruction)
+            // Steel stops bullets; a powered-up one breaks it. Bushes are cleared by any hit.
+            if ((mapObj.type === MapObjectType.STEEL || mapObj.type === MapObjectType.BUSH) && !mapObj.destroyed) {
+              if (mapObj.type === MapObjectType.BUSH || bullet.powered) {
+                mapObj.destroyed = true;
+                this.mapGrid.remove(mapObj);
+                this.emit('map-update', { objectId: mapObj.id, destroyed: true, type: mapObj.type });
+              }
+              this.bullets.delete(bulletId);
+              this.emit('bullet-removed', bulletId);
+              bulletHit = true;
+              return;
+            }
+
+            // Bullets hit concrete walls (blocked, no destruction) or bounce off while they have ricochets left
             if (mapObj.type === MapObjectType.CONCRETE_WALL) {
+              if (bullet.bouncesLeft > 0) {
+                this.ricochet(bullet, subDt);
+                bulletHit = true;
+                return;
+              }
               this.bullets.delete(bulletId);
               this.emit('bullet-removed', bulletId);
               bulletHit = true;
               return;
             }
 
-            // Bullets destroy brick walls
+            // Bases stop bullets; one enemy hit destroys a base (teammates' shots only with friendly fire)
+            if (mapObj.type === MapObjectType.BASE) {
+              const shooter = this.players.get(bullet.playerId);
+              const friendly = shooter !== undefined && shooter.team === mapObj.team;
+              if (!mapObj.destroyed && (!friendly || this.FRIENDLY_FIRE) && this.intermissionUntil === 0) {
+                mapObj.destroyed = true;
+                this.emit('map-update', { objectId: mapObj.id, destroyed: true, type: mapObj.type });
+              }
+              this.bullets.delete(bulletId);
+              this.emit('bullet-removed', bulletId);
+              bulletHit = true;
+              return;
+            }
+
+            // Bullets chip brick walls away a half at a time
             if (mapObj.type === MapObjectType.BRICK_WALL && !mapObj.destroyed) {
-              mapObj.destroyed = true;
+              this.chipBrick(mapObj, bullet);
               this.bullets.delete(bulletId);
               this.emit('bullet-removed', bulletId);
-              this.emit('map-update', { objectId: mapObj.id, destroyed: true });
+              this.emit('map-update', { objectId: mapObj.id, destroyed: !!mapObj.destroyed, type: mapObj.type, damage: mapObj.damage });
               bulletHit = true;
               return;
             }
@@ -517,43 +1452,62 @@ export class Game extends EventEmitter {
         });
 
         // Check for collisions with players (only if bullet didn't hit a wall)
+        // Rewound tanks may be up to maxTravel away from where they are now
+        const weapon = WEAPONS[bullet.weapon];
         if (!bulletHit) {
-          this.players.forEach((player) => {
-            if (player.id !== bullet.playerId) {
-              const distance = Math.sqrt(Math.pow(player.x - bullet.x, 2) + Math.pow(player.y - bullet.y, 2));
-              if (distance < this.TANK_RADIUS) {
+          const mine = bullet.weapon === WeaponType.MINE;
+          const hitRadius = mine ? MINE_TRIGGER_RADIUS : this.TANK_RADIUS;
+          const owner = this.players.get(bullet.playerId);
+          const maxTravel = this.MAX_TANK_SPEED * SPEED_BOOST_MULTIPLIER * bullet.rewindMs / 1000;
+          this.playerGrid.queryRadius(bullet.x, bullet.y, hitRadius + maxTravel).forEach((player) => {
+            if (!bulletHit && !player.dead && player.id !== bullet.playerId) {
+              // Only enemies set mines off
+              if (mine && owner && !this.isEnemy(owner, player)) return;
+              const target = this.getLagCompensatedPosition(player, bullet.rewindMs);
+              if (!target) return;
+              const distance = Math.sqrt(Math.pow(target.x - bullet.x, 2) + Math.pow(target.y - bullet.y, 2));
+              if (distance < hitRadius) {
+                bulletHit = true;
+
+                // Shells striking the hull at a shallow angle glance off it and fly on
+                const impact = weapon.splashRadius === 0
+                  ? impactOf(target.rotation, bullet.x - target.x, bullet.y - target.y, bullet.direction, hitRadius)
+                  : undefined;
+                if (impact?.glancing) {
+                  this.deflect(bullet, target, impact);
+                  this.damagePlayer(player, 0, bullet.playerId, bullet.weapon, impact.side, true);
+                  return;
+                }
+
                 this.bullets.delete(bulletId);
                 this.emit('bullet-removed', bulletId);
-                player.health -= 10;
-                this.emit('health-update', { id: player.id, health: player.health });
-
-                if (player.health <= 0) {
-                  const killer = this.players.get(bullet.playerId);
-                  if (killer) {
-                    killer.score += 100;
-                    this.saveScore(killer.id, killer.score);
-                    this.emit('score-update', { playerId: killer.id, score: killer.score });
-                  }
-                  this.removePlayer(player.id);
-                  this.emit('player-removed', player.id);
+
+                // Spawn-protected and shielded tanks absorb hits without taking damage; explosives hurt through the blast instead
+                if (impact) {
+                  this.damagePlayer(player, Math.round(weapon.damage * ARMOR_MULTIPLIERS[impact.side]), bullet.playerId, bullet.weapon, impact.side);
                 }
-                bulletHit = true;
               }
             }
           });
         }
+
+        // Explosives go off wherever they were stopped
+        if (weapon.splashRadius > 0 && !this.bullets.has(bulletId)) {
+          this.explode(bullet);
+        }
       });
+
+      this.collideBullets(subDt);
     }
 
-    // Health regeneration: fully recover in ~40 seconds
-    // Regen per second: 100 HP / 40s = 2.5 HP per second
-    const REGEN_PER_SECOND = 100 / 40;
+    // Health regeneration at the tank's own rate (a medium tank fully recovers in ~40 seconds; co-op enemies don't heal)
     this.players.forEach((player) => {
-      if (player.health > 0 && player.health < 100) {
+      const maxHealth = player.stats.maxHealth;
+      if (!player.dead && player.health > 0 && player.health < maxHealth && player.stats.regen > 0) {
         const before = player.health;
-        player.health = Math.min(100, player.health + REGEN_PER_SECOND * dt);
+        player.health = Math.min(maxHealth, player.health + player.stats.regen * dt);
         // Emit only when integer value changes to reduce network traffic
-        if (Math.floor(player.health) !== Math.floor(before) || player.health === 100) {
+        if (Math.floor(player.health) !== Math.floor(before) || player.health === maxHealth) {
           this.emit('health-update', { id: player.id, health: Math.round(player.health) });
         }
       }
@@ -2,280 +2,291 @@
  * Map Object Types and Definitions
  */
 
-export enum MapObjectType {
-  BRICK_WALL = 'brick_wall',
-  CONCRETE_WALL = 'concrete_wall',
-  WATER = 'water',
-  TREE = 'tree',
-}
+import { MapObject, MapObjectType, CELL_SIZE } from '../../../shared/MapObject';
+import { MapDefinition, MapTile, TileType, MAP_FORMAT, MAP_FORMAT_VERSION, validateMap } from '../../../shared/MapFormat';
+
+export { MapObjectType, CELL_SIZE, BRICK_FULLY_DAMAGED, brickQuarterAt, blocksTanks, pointInMapObject, circleCollidesWithMapObject } from '../../../shared/MapObject';
+export type { MapObject } from '../../../shared/MapObject';
 
-export interface MapObject {
-  id: string;
-  type: MapObjectType;
+export interface SpawnPoint {
   x: number;
   y: number;
-  width: number;
-  height: number;
-  destroyed?: boolean; // For brick walls
 }
 
 /**
- * Generate a default map layout
- * @param addMapObjects - If false, returns an empty array (clear map). If true, generates all map objects.
+ * A team base: a 2x2-cell base centred on the arena's top or bottom edge, one
+ * cell in from the border and ringed by one layer of brick. Anything the
+ * map put where a base or its ring goes has to be cleared first (see
+ * mapObjectsOverlap).
  */
-export function generateMapLayout(addMapObjects: boolean = false): MapObject[] {
-  const objects: MapObject[] = [];
-  const WORLD_WIDTH = 4000;
-  const WORLD_HEIGHT = 4000;
-  const CELL_SIZE = 40;
-
-  // If map objects are disabled, return empty array (completely clear map)
-  if (addMapObjects) {
-    return objects;
-  }
+export function generateBase(team: number, side: 'top' | 'bottom', worldWidth: number, worldHeight: number): MapObject[] {
+  const cx = Math.floor(worldWidth / CELL_SIZE / 2) - 1;
+  const cy = side === 'top' ? 2 : worldHeight / CELL_SIZE - 4;
+  const objects: MapObject[] = [{
+    id: `base-${team}`,
+    type: MapObjectType.BASE,
+    x: cx * CELL_SIZE,
+    y: cy * CELL_SIZE,
+    width: CELL_SIZE * 2,
+    height: CELL_SIZE * 2,
+    destroyed: false,
+    team,
+  }];
 
-  // Add border walls (concrete - indestructible)
-  // Top and bottom borders
-  for (let x = 0; x < WORLD_WIDTH; x += CELL_SIZE) {
-    objects.push({
-      id: `concrete-border-top-${x}`,
-      type: MapObjectType.CONCRETE_WALL,
-      x,
-      y: 0,
-      width: CELL_SIZE,
-      height: CELL_SIZE,
-    });
-    objects.push({
-      id: `concrete-border-bottom-${x}`,
-      type: MapObjectType.CONCRETE_WALL,
-      x,
-      y: WORLD_HEIGHT - CELL_SIZE,
-      width: CELL_SIZE,
-      height: CELL_SIZE,
-    });
+  for (let dx = -1; dx <= 2; dx++) {
+    for (let dy = -1; dy <= 2; dy++) {
+      if (dx >= 0 && dx <= 1 && dy >= 0 && dy <= 1) continue; // The base itself
+      objects.push({
+        id: `base-${team}-brick-${dx + 1}-${dy + 1}`,
+        type: MapObjectType.BRICK_WALL,
+        x: (cx + dx) * CELL_SIZE,
+        y: (cy + dy) * CELL_SIZE,
+        width: CELL_SIZE,
+        height: CELL_SIZE,
+        destroyed: false,
+        damage: 0,
+      });
+    }
   }
 
-  // Left and right borders
-  for (let y = 0; y < WORLD_HEIGHT; y += CELL_SIZE) {
-    objects.push({
-      id: `concrete-border-left-${y}`,
-      type: MapObjectType.CONCRETE_WALL,
-      x: 0,
-      y,
-      width: CELL_SIZE,
-      height: CELL_SIZE,
-    });
-    objects.push({
-      id: `concrete-border-right-${y}`,
-      type: MapObjectType.CONCRETE_WALL,
-      x: WORLD_WIDTH - CELL_SIZE,
-      y,
-      width: CELL_SIZE,
-      height: CELL_SIZE,
-    });
-  }
+  return objects;
+}
 
-  // Add brick walls in the middle (destructible) - 7x density
-  const brickWallGroups: Array<{ x: number; y: number; width?: number; height?: number }> = [
-    // Original walls multiplied
-    { x: 800, y: 800, width: 3, height: 1 },
-    { x: 1200, y: 600, width: 2, height: 1 },
-    { x: 2000, y: 1500, width: 3, height: 1 },
-    { x: 3000, y: 2000, width: 2, height: 1 },
-    // Additional walls for 7x density
-    { x: 400, y: 400, width: 2, height: 1 },
-    { x: 600, y: 1200, width: 3, height: 1 },
-    { x: 1000, y: 2000, width: 2, height: 1 },
-    { x: 1400, y: 800, width: 4, height: 1 },
-    { x: 1600, y: 1400, width: 2, height: 1 },
-    { x: 1800, y: 600, width: 3, height: 1 },
-    { x: 2200, y: 1800, width: 2, height: 1 },
-    { x: 2400, y: 1200, width: 3, height: 1 },
-    { x: 2600, y: 400, width: 2, height: 1 },
-    { x: 2800, y: 1600, width: 4, height: 1 },
-    { x: 3200, y: 1000, width: 2, height: 1 },
-    { x: 3400, y: 2400, width: 3, height: 1 },
-    { x: 3600, y: 600, width: 2, height: 1 },
-    { x: 500, y: 2500, width: 3, height: 1 },
-    { x: 900, y: 3000, width: 2, height: 1 },
-    { x: 1300, y: 3500, width: 3, height: 1 },
-    { x: 1700, y: 3200, width: 2, height: 1 },
-    { x: 2100, y: 2800, width: 4, height: 1 },
-    { x: 2500, y: 3200, width: 2, height: 1 },
-    { x: 2900, y: 3600, width: 3, height: 1 },
-    { x: 3300, y: 3000, width: 2, height: 1 },
-    { x: 3700, y: 3400, width: 3, height: 1 },
-    // Vertical walls
-    { x: 500, y: 1000, width: 1, height: 3 },
-    { x: 1500, y: 2000, width: 1, height: 2 },
-    { x: 2500, y: 500, width: 1, height: 3 },
-    { x: 3500, y: 1500, width: 1, height: 4 },
-    { x: 700, y: 2800, width: 1, height: 2 },
-    { x: 1900, y: 1000, width: 1, height: 3 },
-    { x: 3100, y: 2200, width: 1, height: 2 },
-  ];
+/**
+ * Co-op enemy spawn gates along the top edge (left, centre and right), as in
+ * Battle City. The two-cell square around each gate has to be kept clear.
+ */
+export function generateEnemyGates(worldWidth: number): SpawnPoint[] {
+  const y = CELL_SIZE * 2;
+  const centre = Math.floor(worldWidth / CELL_SIZE / 2) * CELL_SIZE;
+  return [CELL_SIZE * 2, centre, worldWidth - CELL_SIZE * 2].map(x => ({ x, y }));
+}
 
-  let brickWallIndex = 0;
-  brickWallGroups.forEach((group) => {
-    const width = group.width || 1;
-    const height = group.height || 1;
-    for (let dx = 0; dx < width; dx++) {
-      for (let dy = 0; dy < height; dy++) {
-        objects.push({
-          id: `brick-wall-${brickWallIndex++}`,
-          type: MapObjectType.BRICK_WALL,
-          x: group.x + dx * CELL_SIZE,
-          y: group.y + dy * CELL_SIZE,
-          width: CELL_SIZE,
-          height: CELL_SIZE,
-          destroyed: false,
-        });
-      }
-    }
-  });
+type Rect = Pick<MapObject, 'x' | 'y' | 'width' | 'height'>;
 
-  // Add water areas - 7x density
-  const waterAreas = [
-    // Original water areas
-    { x: 1600, y: 1600, width: 3, height: 2 },
-    { x: 2500, y: 1000, width: 2, height: 4 },
-    // Additional water areas for 7x density
-    { x: 600, y: 600, width: 2, height: 2 },
-    { x: 1200, y: 1200, width: 3, height: 2 },
-    { x: 800, y: 2000, width: 2, height: 3 },
-    { x: 1800, y: 2400, width: 3, height: 2 },
-    { x: 2400, y: 1800, width: 2, height: 4 },
-    { x: 3000, y: 1400, width: 3, height: 2 },
-    { x: 3400, y: 2800, width: 2, height: 3 },
-    { x: 400, y: 3200, width: 3, height: 2 },
-    { x: 1400, y: 3600, width: 2, height: 2 },
-    { x: 2200, y: 3200, width: 3, height: 2 },
-    { x: 2800, y: 400, width: 2, height: 3 },
-    { x: 3600, y: 2000, width: 3, height: 2 },
-    { x: 1000, y: 2800, width: 2, height: 2 },
-    { x: 3200, y: 600, width: 3, height: 2 },
-    { x: 600, y: 1800, width: 2, height: 3 },
-    { x: 2000, y: 600, width: 3, height: 2 },
-    { x: 2600, y: 2600, width: 2, height: 4 },
-    { x: 3800, y: 3200, width: 3, height: 2 },
-  ];
+/**
+ * Whether two map objects' (or areas') rectangles overlap
+ */
+export function mapObjectsOverlap(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+         a.y < b.y + b.height && b.y < a.y + a.height;
+}
 
-  waterAreas.forEach((area, index) => {
-    for (let dx = 0; dx < area.width; dx++) {
-      for (let dy = 0; dy < area.height; dy++) {
-        objects.push({
-          id: `water-${index}-${dx}-${dy}`,
-          type: MapObjectType.WATER,
-          x: area.x + dx * CELL_SIZE,
-          y: area.y + dy * CELL_SIZE,
-          width: CELL_SIZE,
-          height: CELL_SIZE,
-        });
-      }
-    }
-  });
+// 'mirror' reflects the top half onto the bottom, 'rotational' turns it 180 degrees;
+// either gives both halves (and so both teams' bases) the same terrain
+export type MapSymmetry = 'none' | 'mirror' | 'rotational';
 
-  // Add trees (scattered) - 7x density (49 trees total)
-  const trees = [
-    // Original trees
-    { x: 500, y: 500 },
-    { x: 1500, y: 700 },
-    { x: 2200, y: 1200 },
-    { x: 1800, y: 2500 },
-    { x: 3200, y: 1800 },
-    { x: 700, y: 3000 },
-    { x: 2800, y: 2800 },
-    // Additional trees for 7x density
-    { x: 300, y: 300 },
-    { x: 900, y: 400 },
-    { x: 1100, y: 900 },
-    { x: 1300, y: 1300 },
-    { x: 1700, y: 500 },
-    { x: 1900, y: 1100 },
-    { x: 2100, y: 1900 },
-    { x: 2300, y: 700 },
-    { x: 2700, y: 1500 },
-    { x: 2900, y: 2300 },
-    { x: 3100, y: 1000 },
-    { x: 3300, y: 2700 },
-    { x: 3500, y: 500 },
-    { x: 3700, y: 1500 },
-    { x: 100, y: 1000 },
-    { x: 500, y: 1500 },
-    { x: 700, y: 2000 },
-    { x: 1100, y: 2500 },
-    { x: 1500, y: 3000 },
-    { x: 1900, y: 3500 },
-    { x: 2300, y: 3100 },
-    { x: 2700, y: 3300 },
-    { x: 3100, y: 3500 },
-    { x: 3500, y: 3100 },
-    { x: 3900, y: 2700 },
-    { x: 200, y: 2000 },
-    { x: 600, y: 2400 },
-    { x: 1000, y: 2200 },
-    { x: 1400, y: 2600 },
-    { x: 1800, y: 2900 },
-    { x: 2200, y: 3400 },
-    { x: 2600, y: 3700 },
-    { x: 3000, y: 3600 },
-    { x: 3400, y: 3300 },
-    { x: 3800, y: 2900 },
-    { x: 400, y: 3600 },
-    { x: 800, y: 3800 },
-  ];
+export interface MapGeneratorOptions {
+  width: number; // World size (units, a multiple of CELL_SIZE)
+  height: number;
+  brick: number; // Share of interior cells covered by each terrain type (0-1)
+  concrete: number;
+  water: number;
+  trees: number;
+  symmetry: MapSymmetry;
+}
 
-  trees.forEach((pos, index) => {
-    objects.push({
-      id: `tree-${index}`,
-      type: MapObjectType.TREE,
-      x: pos.x,
-      y: pos.y,
-      width: CELL_SIZE,
-      height: CELL_SIZE,
-    });
-  });
+export const DEFAULT_GENERATOR_OPTIONS: MapGeneratorOptions = {
+  width: 4000,
+  height: 4000,
+  brick: 0.08,
+  concrete: 0.015,
+  water: 0.04,
+  trees: 0.03,
+  symmetry: 'none',
+};
 
-  return objects;
-}
+const SPAWN_SPACING = 10; // Cells between generated spawn points
+const SPAWN_OFFSET = 4; // Cells from the border to the first spawn point
 
 /**
- * Check if a point is within a map object
+ * Mulberry32: a small seedable PRNG, so the same seed always yields the same map
+ * @returns A function returning floats in [0, 1)
  */
-export function pointInMapObject(x: number, y: number, obj: MapObject): boolean {
-  return x >= obj.x && x < obj.x + obj.width &&
-         y >= obj.y && y < obj.y + obj.height;
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 /**
- * Check if a circle (tank) collides with a map object
+ * Generate a random map: a concrete border, clusters of each terrain type at
+ * the requested densities and an evenly spread grid of spawn points. Every
+ * spawn point is guaranteed to reach every other through gaps at least two
+ * cells wide, so a tank has room to steer (checked with a flood fill over 2x2
+ * blocks; blocked spawns get a two-cell corridor carved to the first one).
+ * @param seed - Unsigned 32-bit seed; recorded in the map so it can be reproduced
  */
-export function circleCollidesWithMapObject(
-  circleX: number,
-  circleY: number,
-  radius: number,
-  obj: MapObject
-): boolean {
-  if (obj.destroyed && obj.type === MapObjectType.BRICK_WALL) {
-    return false; // Destroyed walls don't block
+export function generateMap(seed: number, options: Partial<MapGeneratorOptions> = {}): MapDefinition {
+  const settings = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  const random = createRandom(seed);
+  const columns = settings.width / CELL_SIZE;
+  const rows = settings.height / CELL_SIZE;
+  if (!Number.isInteger(columns) || !Number.isInteger(rows) || columns < 10 || rows < 10) {
+    throw new Error(`Map generator: size must be a multiple of ${CELL_SIZE} and at least ${CELL_SIZE * 10}`);
   }
+  const cells: (TileType | null)[] = new Array(columns * rows).fill(null);
+  const index = (cx: number, cy: number) => cy * columns + cx;
 
-  if (obj.type === MapObjectType.WATER || obj.type === MapObjectType.TREE) {
-    // Trees don't block movement (only visual), water blocks movement
-    if (obj.type === MapObjectType.TREE) {
-      return false;
+  // Where a cell lands in the other half; null without symmetry
+  const mirrorOf = (cx: number, cy: number): [number, number] | null => {
+    if (settings.symmetry === 'mirror') return [cx, rows - 1 - cy];
+    if (settings.symmetry === 'rotational') return [columns - 1 - cx, rows - 1 - cy];
+    return null;
+  };
+  const setCell = (cx: number, cy: number, type: TileType | null) => {
+    cells[index(cx, cy)] = type;
+    const mirror = mirrorOf(cx, cy);
+    if (mirror) cells[index(mirror[0], mirror[1])] = type;
+  };
+
+  for (let cx = 0; cx < columns; cx++) {
+    for (let cy = 0; cy < rows; cy++) {
+      if (cx === 0 || cy === 0 || cx === columns - 1 || cy === rows - 1) {
+        cells[index(cx, cy)] = MapObjectType.CONCRETE_WALL;
+      }
     }
   }
 
-  // Find closest point on rectangle to circle center
-  const closestX = Math.max(obj.x, Math.min(circleX, obj.x + obj.width));
-  const closestY = Math.max(obj.y, Math.min(circleY, obj.y + obj.height));
+  // Symmetric maps are generated in the top half and copied; an odd middle row stays open
+  const generatedRows = settings.symmetry === 'none' ? rows - 1 : Math.floor(rows / 2);
+  const interiorCells = (columns - 2) * (generatedRows - 1);
+  const terrain: [TileType, number][] = [
+    [MapObjectType.WATER, settings.water],
+    [MapObjectType.CONCRETE_WALL, settings.concrete],
+    [MapObjectType.BRICK_WALL, settings.brick],
+    [MapObjectType.TREE, settings.trees],
+  ];
+  terrain.forEach(([type, density]) => {
+    const target = Math.round(Math.max(0, Math.min(1, density)) * interiorCells);
+    let placed = 0;
+    for (let attempt = 0; placed < target && attempt < target * 10; attempt++) {
+      // Short straight runs (horizontal or vertical) read like hand-made walls
+      const length = 1 + Math.floor(random() * 4);
+      const horizontal = random() < 0.5;
+      const startX = 1 + Math.floor(random() * (columns - 2));
+      const startY = 1 + Math.floor(random() * (generatedRows - 1));
+      for (let step = 0; step < length && placed < target; step++) {
+        const cx = horizontal ? startX + step : startX;
+        const cy = horizontal ? startY : startY + step;
+        if (cx >= columns - 1 || cy >= generatedRows || cells[index(cx, cy)] !== null) break;
+        setCell(cx, cy, type);
+        placed++;
+      }
+    }
+  });
+
+  // Spawn points keep a cell of clearance from the border
+  const spawnCells: [number, number][] = [];
+  for (let cy = SPAWN_OFFSET; cy < Math.min(generatedRows, rows - 2); cy += SPAWN_SPACING) {
+    for (let cx = SPAWN_OFFSET; cx < columns - 2; cx += SPAWN_SPACING) {
+      spawnCells.push([cx, cy]);
+      const mirror = mirrorOf(cx, cy);
+      if (mirror) spawnCells.push(mirror);
+    }
+  }
+  // Clear the 3x3 cells around each spawn point
+  spawnCells.forEach(([cx, cy]) => {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) setCell(cx + dx, cy + dy, null);
+    }
+  });
+
+  // Reachability is checked over 2x2 blocks of cells, identified by their
+  // top-left cell: a tank moves between blocks that are open throughout. Each
+  // spawn point starts from the block at the top-left of its clearing.
+  const isOpen = (i: number) => cells[i] === null || cells[i] === MapObjectType.TREE;
+  const blockColumns = columns - 1;
+  const openBlocks = () => {
+    const open = new Array<boolean>(blockColumns * (rows - 1));
+    for (let by = 0; by < rows - 1; by++) {
+      for (let bx = 0; bx < blockColumns; bx++) {
+        open[by * blockColumns + bx] = isOpen(index(bx, by)) && isOpen(index(bx + 1, by)) &&
+          isOpen(index(bx, by + 1)) && isOpen(index(bx + 1, by + 1));
+      }
+    }
+    return open;
+  };
+  const clearBlock = (bx: number, by: number) => {
+    [[bx, by], [bx + 1, by], [bx, by + 1], [bx + 1, by + 1]].forEach(([cx, cy]) => {
+      if (!isOpen(index(cx, cy))) setCell(cx, cy, null);
+    });
+  };
 
-  // Calculate distance from circle center to closest point
-  const dx = circleX - closestX;
-  const dy = circleY - closestY;
-  const distanceSquared = dx * dx + dy * dy;
+  // Carve a corridor from each spawn point the flood fill can't reach to the
+  // first one. With symmetry the mirrored corridor is carved too, which links
+  // mirrored spawns to the first one's mirror (spawnCells[1], connected first).
+  const [goalX, goalY] = [spawnCells[0][0] - 1, spawnCells[0][1] - 1];
+  let reachable = floodFill(openBlocks(), blockColumns, rows - 1, [goalX, goalY]);
+  spawnCells.forEach(([cx, cy]) => {
+    const [bx, by] = [cx - 1, cy - 1];
+    if (reachable[by * blockColumns + bx]) return;
+    for (let x = bx; x !== goalX; x += Math.sign(goalX - x)) clearBlock(x, by);
+    for (let y = by; y !== goalY; y += Math.sign(goalY - y)) clearBlock(goalX, y);
+    reachable = floodFill(openBlocks(), blockColumns, rows - 1, [goalX, goalY]);
+  });
+  if (!spawnCells.every(([cx, cy]) => reachable[(cy - 1) * blockColumns + cx - 1])) {
+    // Unreachable by construction; guards the guarantee against future edits
+    throw new Error(`Map generator: spawn points not connected for seed ${seed}`);
+  }
 
-  return distanceSquared < radius * radius;
+  // One tile per horizontal run of equal cells
+  const tiles: MapTile[] = [];
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < columns; cx++) {
+      const type = cells[index(cx, cy)];
+      if (type === null) continue;
+      let run = 1;
+      while (cx + run < columns && cells[index(cx + run, cy)] === type) run++;
+      tiles.push({ type, x: cx * CELL_SIZE, y: cy * CELL_SIZE, ...(run > 1 ? { w: run } : {}) });
+      cx += run - 1;
+    }
+  }
+
+  return validateMap({
+    format: MAP_FORMAT,
+    version: MAP_FORMAT_VERSION,
+    name: `generated-${seed}`,
+    title: 'Generated',
+    author: 'generator',
+    description: `Procedurally generated (${settings.symmetry} symmetry)`,
+    width: settings.width,
+    height: settings.height,
+    seed,
+    spawns: spawnCells.map(([cx, cy]) => ({ x: (cx + 0.5) * CELL_SIZE, y: (cy + 0.5) * CELL_SIZE })),
+    tiles,
+  }, `generated-${seed}`);
 }
 
+/**
+ * 4-connected flood fill over an open/blocked grid
+ * @returns Which grid squares can be reached from the start square
+ */
+function floodFill(open: boolean[], columns: number, rows: number, [startX, startY]: [number, number]): boolean[] {
+  const reached = new Array<boolean>(open.length).fill(false);
+  const stack = [startY * columns + startX];
+  reached[stack[0]] = true;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const cx = i % columns;
+    const cy = Math.floor(i / columns);
+    const neighbours = [
+      cx > 0 ? i - 1 : -1,
+      cx < columns - 1 ? i + 1 : -1,
+      cy > 0 ? i - columns : -1,
+      cy < rows - 1 ? i + columns : -1,
+    ];
+    neighbours.forEach((n) => {
+      if (n >= 0 && open[n] && !reached[n]) {
+        reached[n] = true;
+        stack.push(n);
+      }
+    });
+  }
+  return reached;
+}
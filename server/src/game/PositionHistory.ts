@@ -0,0 +1,81 @@
+/**
+ * Position History for Lag Compensation
+ * Ring buffer of per-tick player positions and headings so hit checks can be
+ * evaluated against where tanks were at an earlier point in time
+ */
+
+export interface HistoricalPosition {
+  x: number;
+  y: number;
+  rotation: number; // Radians (decides which armor plate a shell strikes)
+  alive: boolean;
+}
+
+interface HistoryFrame {
+  time: number; // Timestamp (ms) of the tick
+  positions: Map<string, HistoricalPosition>;
+}
+
+export class PositionHistory {
+  private frames: (HistoryFrame | null)[];
+  private head = 0; // Index of the next frame to write
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.frames = new Array(Math.max(2, capacity)).fill(null);
+  }
+
+  /**
+   * Record the positions of all players at the given tick time
+   */
+  record(time: number, players: Iterable<{ id: string; x: number; y: number; rotation: number; dead: boolean }>): void {
+    const positions = new Map<string, HistoricalPosition>();
+    for (const player of players) {
+      positions.set(player.id, { x: player.x, y: player.y, rotation: player.rotation, alive: !player.dead });
+    }
+
+    this.frames[this.head] = { time, positions };
+    this.head = (this.head + 1) % this.frames.length;
+    this.count = Math.min(this.count + 1, this.frames.length);
+  }
+
+  /**
+   * Get a player's position at a past time, interpolating between the two
+   * recorded ticks around it. Times older than the buffer clamp to the oldest
+   * frame; returns null if the player was not recorded at all.
+   */
+  getPositionAt(playerId: string, time: number): HistoricalPosition | null {
+    let newer: HistoryFrame | null = null;
+
+    // Walk from the newest frame backwards
+    for (let i = 1; i <= this.count; i++) {
+      const frame = this.frames[(this.head - i + this.frames.length) % this.frames.length]!;
+      if (frame.time <= time) {
+        const older = frame.positions.get(playerId);
+        const next = newer?.positions.get(playerId);
+        if (!older) return next ?? null;
+        if (!newer || !next || !older.alive || !next.alive || newer.time === frame.time) return older;
+
+        const t = (time - frame.time) / (newer.time - frame.time);
+        // Turn the short way round, across the wrap at 2π if need be
+        const turn = Math.atan2(Math.sin(next.rotation - older.rotation), Math.cos(next.rotation - older.rotation));
+        return {
+          x: older.x + (next.x - older.x) * t,
+          y: older.y + (next.y - older.y) * t,
+          rotation: older.rotation + turn * t,
+          alive: true,
+        };
+      }
+      newer = frame;
+    }
+
+    // Requested time predates the buffer
+    return newer?.positions.get(playerId) ?? null;
+  }
+
+  clear(): void {
+    this.frames.fill(null);
+    this.head = 0;
+    this.count = 0;
+  }
+}
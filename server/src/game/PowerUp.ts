@@ -0,0 +1,66 @@
+/**
+ * Power-up Types and Definitions
+ */
+
+import { WeaponType } from './Weapon';
+
+export enum PowerUpType {
+  STAR = 'star',             // Faster fire rate and bullet speed
+  SHIELD = 'shield',         // Temporary damage immunity
+  SPEED = 'speed',           // Faster movement
+  BOMB = 'bomb',             // Instantly damages every enemy tank
+  SHOVEL = 'shovel',         // Temporarily turns nearby brick into concrete
+  EXTRA_LIFE = 'extra_life', // Skip the respawn delay on the next death
+  SHOTGUN = 'shotgun',       // Weapon pickups: swap the cannon for a special weapon
+  HEAVY = 'heavy',
+  MINES = 'mines',
+}
+
+export interface PowerUp {
+  id: string;
+  type: PowerUpType;
+  x: number;
+  y: number;
+  expiresAt: number; // Timestamp (ms) at which an uncollected pickup disappears
+}
+
+/**
+ * Duration (ms) of timed effects. Types without an entry take effect instantly.
+ */
+export const POWER_UP_DURATIONS: Partial<Record<PowerUpType, number>> = {
+  [PowerUpType.STAR]: 15000,
+  [PowerUpType.SHIELD]: 10000,
+  [PowerUpType.SPEED]: 10000,
+  [PowerUpType.SHOVEL]: 20000,
+};
+
+/**
+ * Weapon each weapon pickup arms the tank with (see WEAPONS for its ammo)
+ */
+export const WEAPON_PICKUPS: Partial<Record<PowerUpType, WeaponType>> = {
+  [PowerUpType.SHOTGUN]: WeaponType.SHOTGUN,
+  [PowerUpType.HEAVY]: WeaponType.HEAVY,
+  [PowerUpType.MINES]: WeaponType.MINE,
+};
+
+/**
+ * Bit flags used to send a player's active effects in snapshots (`fx`)
+ */
+export const EFFECT_FLAGS: Partial<Record<PowerUpType, number>> = {
+  [PowerUpType.STAR]: 1,
+  [PowerUpType.SHIELD]: 2,
+  [PowerUpType.SPEED]: 4,
+};
+
+export const STAR_FIRE_RATE_MULTIPLIER = 2;
+export const STAR_BULLET_SPEED_MULTIPLIER = 1.5;
+export const SPEED_BOOST_MULTIPLIER = 1.5;
+export const BOMB_DAMAGE = 50;
+export const SHOVEL_RADIUS = 160;
+export const MAX_EXTRA_LIVES = 3;
+
+const SPAWNABLE_TYPES = Object.values(PowerUpType);
+
+export function randomPowerUpType(): PowerUpType {
+  return SPAWNABLE_TYPES[Math.floor(Math.random() * SPAWNABLE_TYPES.length)];
+}
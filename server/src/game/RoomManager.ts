@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Game, Player } from './Game';
+import { BotController, BotDifficulty, BOT_DIFFICULTIES } from './bots/BotController';
+import { COOP_MAX_PLAYERS } from '../../../shared/GameMode';
+import { MapDefinition, UPLOAD_LIMITS, validateMap } from '../../../shared/MapFormat';
+import { TankClass } from '../../../shared/TankClass';
+import { loadMaps } from './maps/Maps';
+import { generateMap, MapSymmetry } from './MapObject';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// 'random' plays a freshly generated map; 'generated-<seed>' reproduces one
+const RANDOM_MAP = 'random';
+const GENERATED_MAP = /^generated-(\d{1,10})$/;
+// Maps uploaded from the editor are kept for a playtest room; the name is unguessable
+const PLAYTEST_PREFIX = 'playtest-';
+const PLAYTEST_MAP_TTL = 30 * 60 * 1000; // ms an unused playtest map is kept
+const MAX_PLAYTEST_MAPS = 50;
+
+export interface Room {
+  id: string;
+  map: string; // Name of the map the room plays
+  game: Game;
+  playerIds: Set<string>; // Connected humans; bots are tracked by `bots`
+  bots: BotController;
+}
+
+/**
+ * Room Manager
+ * Creates a Game per room on demand, assigns players to rooms playing the map
+ * they asked for (MAP_NAME by default) with free slots, and tears rooms down
+ * (stopping their tick loop) once the last player leaves. Maps are loaded from
+ * files or generated from a seed ('random' or 'generated-<seed>'); the map
+ * editor's playtest maps get a private room under a random 'playtest-' name.
+ * With BOT_FILL_TARGET set, each room is topped up with bots to that population.
+ * Co-op rooms hold at most COOP_MAX_PLAYERS tanks on the players' side.
+ *
+ * Events: 'room-created' (room), 'room-destroyed' (room)
+ */
+export class RoomManager extends EventEmitter {
+  private rooms = new Map<string, Room>();
+  private playerRooms = new Map<string, Room>();
+  private nextRoomId = 1;
+  private readonly MAX_PLAYERS_PER_ROOM: number;
+  private readonly BOT_FILL_TARGET: number;
+  private readonly BOT_DIFFICULTY: BotDifficulty;
+  private readonly maps: Map<string, MapDefinition>;
+  private playtestMaps = new Map<string, MapDefinition>();
+  private readonly DEFAULT_MAP: string;
+  private readonly MAP_SYMMETRY: MapSymmetry;
+
+  constructor() {
+    super();
+    // MAX_PLAYERS_PER_ROOM caps how many players share one arena
+    const maxPlayers = Number(process.env.MAX_PLAYERS_PER_ROOM);
+    this.MAX_PLAYERS_PER_ROOM = Number.isInteger(maxPlayers) && maxPlayers > 0 ? maxPlayers : 16;
+    // BOT_FILL_TARGET is the room population (humans + bots) kept up with bots; 0 disables bots
+    const botTarget = Number(process.env.BOT_FILL_TARGET);
+    this.BOT_FILL_TARGET = Number.isInteger(botTarget) && botTarget >= 0 ? Math.min(botTarget, this.MAX_PLAYERS_PER_ROOM) : 0;
+    const difficulty = process.env.BOT_DIFFICULTY as BotDifficulty;
+    this.BOT_DIFFICULTY = Object.prototype.hasOwnProperty.call(BOT_DIFFICULTIES, difficulty ?? '') ? difficulty : 'normal';
+
+    // MAPS_DIR adds map files to the bundled ones; MAP_NAME picks the default
+    // (ADD_MAP_OBJECTS=false is kept as a shorthand for the empty map)
+    this.maps = loadMaps(process.env.MAPS_DIR);
+    const fallback = process.env.ADD_MAP_OBJECTS?.toLowerCase() === 'false' ? 'empty' : 'classic';
+    const mapName = process.env.MAP_NAME ?? fallback;
+    this.DEFAULT_MAP = this.hasMap(mapName) ? mapName : fallback;
+    // Generated maps are mirrored top to bottom in modes where two teams face off
+    this.MAP_SYMMETRY = process.env.GAME_MODE === 'tdm' || process.env.GAME_MODE === 'base' ? 'mirror' : 'none';
+  }
+
+  hasMap(name: string): boolean {
+    return this.maps.has(name) || this.playtestMaps.has(name) || name === RANDOM_MAP || this.parseSeed(name) !== null;
+  }
+
+  /**
+   * Register a map uploaded from the editor for a playtest. It is only reachable
+   * through the returned name and dropped once unused for PLAYTEST_MAP_TTL.
+   * @throws Error describing the first problem with the map, or when too many are registered
+   */
+  addPlaytestMap(data: unknown): string {
+    if (this.playtestMaps.size >= MAX_PLAYTEST_MAPS) {
+      throw new Error('Too many playtests running, try again later');
+    }
+    const map = validateMap(data, 'playtest map', UPLOAD_LIMITS);
+    const name = `${PLAYTEST_PREFIX}${randomBytes(8).toString('hex')}`;
+    this.playtestMaps.set(name, { ...map, name });
+    this.schedulePlaytestExpiry(name);
+    return name;
+  }
+
+  private schedulePlaytestExpiry(name: string) {
+    setTimeout(() => {
+      if (this.getRooms().some(room => room.map === name)) {
+        this.schedulePlaytestExpiry(name);
+      } else {
+        this.playtestMaps.delete(name);
+      }
+    }, PLAYTEST_MAP_TTL).unref();
+  }
+
+  /**
+   * Seed of a 'generated-<seed>' map name, or null for other names
+   */
+  private parseSeed(name: string): number | null {
+    const match = GENERATED_MAP.exec(name);
+    const seed = match ? Number(match[1]) : NaN;
+    return seed <= 0xFFFFFFFF ? seed : null;
+  }
+
+  /**
+   * Put a player into the fullest room on the map that still has a free slot,
+   * creating a new room when every existing one is full
+   * @param mapName - Must be a loaded map (see hasMap); the default map when omitted
+   * @param tankClass - Class of the player's tank; the default class when omitted
+   */
+  joinRoom(playerId: string, mapName: string = this.DEFAULT_MAP, tankClass?: TankClass): { room: Room; player: Player } {
+    this.leaveRoom(playerId);
+
+    let room: Room | undefined;
+    this.rooms.forEach((candidate) => {
+      const onMap = mapName === RANDOM_MAP ? this.parseSeed(candidate.map) !== null : candidate.map === mapName;
+      if (!onMap || candidate.playerIds.size >= this.getCapacity(candidate)) return;
+      if (!room || candidate.playerIds.size > room.playerIds.size) {
+        room = candidate;
+      }
+    });
+
+    const target = room ?? this.createRoom(mapName);
+    target.playerIds.add(playerId);
+    this.playerRooms.set(playerId, target);
+    const player = target.game.addPlayer(playerId, false, { tankClass });
+    this.fillWithBots(target);
+    return { room: target, player };
+  }
+
+  /**
+   * Remove a player from their room; an empty room is destroyed
+   */
+  leaveRoom(playerId: string): Room | undefined {
+    const room = this.playerRooms.get(playerId);
+    if (!room) return undefined;
+
+    room.game.removePlayer(playerId);
+    room.playerIds.delete(playerId);
+    this.playerRooms.delete(playerId);
+
+    if (room.playerIds.size === 0) {
+      this.destroyRoom(room);
+    } else {
+      this.fillWithBots(room);
+    }
+    return room;
+  }
+
+  getRoomForPlayer(playerId: string): Room | undefined {
+    return this.playerRooms.get(playerId);
+  }
+
+  getRooms(): Room[] {
+    return Array.from(this.rooms.values());
+  }
+
+  private createRoom(mapName: string): Room {
+    const map = this.maps.get(mapName) ?? this.playtestMaps.get(mapName) ?? generateMap(
+      this.parseSeed(mapName) ?? Math.floor(Math.random() * 0x100000000),
+      { symmetry: this.MAP_SYMMETRY }
+    );
+    const game = new Game(map);
+    const room: Room = {
+      id: `room-${this.nextRoomId++}`,
+      map: map.name,
+      game,
+      playerIds: new Set(),
+      bots: new BotController(game, this.BOT_DIFFICULTY),
+    };
+    this.rooms.set(room.id, room);
+    this.emit('room-created', room);
+    return room;
+  }
+
+  private getCapacity(room: Room): number {
+    return room.game.getMode() === 'coop' ? Math.min(COOP_MAX_PLAYERS, this.MAX_PLAYERS_PER_ROOM) : this.MAX_PLAYERS_PER_ROOM;
+  }
+
+  /**
+   * Bots give up their slots as humans join and take them back as they leave
+   */
+  private fillWithBots(room: Room) {
+    const target = Math.min(this.BOT_FILL_TARGET, this.getCapacity(room));
+    room.bots.setBotCount(Math.max(0, target - room.playerIds.size));
+  }
+
+  private destroyRoom(room: Room) {
+    room.game.stop();
+    room.game.removeAllListeners();
+    this.rooms.delete(room.id);
+    this.emit('room-destroyed', room);
+  }
+}
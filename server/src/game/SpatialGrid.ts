@@ -0,0 +1,142 @@
+/**
+ * Uniform Grid Spatial Index
+ * Buckets items by the grid cells their bounding box overlaps so collision
+ * checks only look at nearby items instead of the whole world
+ */
+
+export interface GridBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface CellRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Cell coordinates are packed into a single numeric key
+const KEY_OFFSET = 32768;
+const KEY_STRIDE = 65536;
+
+export class SpatialGrid<T> {
+  private cells = new Map<number, Set<T>>();
+  private itemRanges = new Map<T, CellRange>();
+  private readonly cellSize: number;
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Add an item, or move it if it is already indexed
+   */
+  insert(item: T, bounds: GridBounds): void {
+    const range = this.getCellRange(bounds.x, bounds.y, bounds.x + bounds.width, bounds.y + bounds.height);
+    const current = this.itemRanges.get(item);
+    if (current) {
+      if (current.minX === range.minX && current.minY === range.minY &&
+          current.maxX === range.maxX && current.maxY === range.maxY) {
+        return;
+      }
+      this.remove(item);
+    }
+
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.cellKey(cx, cy);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this.cells.set(key, cell);
+        }
+        cell.add(item);
+      }
+    }
+    this.itemRanges.set(item, range);
+  }
+
+  /**
+   * Index a circle (e.g. a tank) by its bounding box
+   */
+  insertCircle(item: T, x: number, y: number, radius: number): void {
+    this.insert(item, { x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 });
+  }
+
+  remove(item: T): void {
+    const range = this.itemRanges.get(item);
+    if (!range) return;
+
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.cellKey(cx, cy);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.delete(item);
+          if (cell.size === 0) {
+            this.cells.delete(key);
+          }
+        }
+      }
+    }
+    this.itemRanges.delete(item);
+  }
+
+  has(item: T): boolean {
+    return this.itemRanges.has(item);
+  }
+
+  /**
+   * Items whose cells overlap the given rectangle (a broad phase; callers still
+   * run their exact collision test on the results)
+   */
+  queryRect(x: number, y: number, width: number, height: number): T[] {
+    const range = this.getCellRange(x, y, x + width, y + height);
+
+    // Fast path: a single cell can't contain duplicates
+    if (range.minX === range.maxX && range.minY === range.maxY) {
+      const cell = this.cells.get(this.cellKey(range.minX, range.minY));
+      return cell ? Array.from(cell) : [];
+    }
+
+    const results = new Set<T>();
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const cell = this.cells.get(this.cellKey(cx, cy));
+        if (cell) {
+          cell.forEach(item => results.add(item));
+        }
+      }
+    }
+    return Array.from(results);
+  }
+
+  queryRadius(x: number, y: number, radius: number): T[] {
+    return this.queryRect(x - radius, y - radius, radius * 2, radius * 2);
+  }
+
+  queryPoint(x: number, y: number): T[] {
+    return this.queryRect(x, y, 0, 0);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.itemRanges.clear();
+  }
+
+  private getCellRange(minX: number, minY: number, maxX: number, maxY: number): CellRange {
+    return {
+      minX: Math.floor(minX / this.cellSize),
+      minY: Math.floor(minY / this.cellSize),
+      maxX: Math.floor(maxX / this.cellSize),
+      maxY: Math.floor(maxY / this.cellSize),
+    };
+  }
+
+  private cellKey(cx: number, cy: number): number {
+    return (cx + KEY_OFFSET) * KEY_STRIDE + (cy + KEY_OFFSET);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Weapon Types and Definitions
+ * Every tank starts with the cannon; weapon pickups swap it for a special
+ * weapon until that weapon's ammo runs out.
+ */
+
+export enum WeaponType {
+  CANNON = 'cannon',   // Standard shell, never runs out
+  SHOTGUN = 'shotgun', // Fan of weak pellets
+  HEAVY = 'heavy',     // Slow shell that explodes, breaking every brick around the impact
+  MINE = 'mine',       // Dropped under the tank; explodes when an enemy drives over it
+}
+
+export interface Weapon {
+  damage: number; // Per projectile (direct hit, or everything inside the splash radius)
+  speed: number; // Multiple of the tank's bullet speed (0: the projectile stays where it is dropped)
+  cooldown: number; // Multiple of the tank's fire cooldown
+  spread: number; // Radians between neighbouring projectiles of one shot
+  projectiles: number; // Fired per shot
+  splashRadius: number; // Explosion radius on impact (0: no explosion)
+  ammo: number; // Shots a pickup gives (0 for the cannon, which never runs out)
+}
+
+export const WEAPONS: Record<WeaponType, Weapon> = {
+  [WeaponType.CANNON]: { damage: 10, speed: 1, cooldown: 1, spread: 0, projectiles: 1, splashRadius: 0, ammo: 0 },
+  [WeaponType.SHOTGUN]: { damage: 6, speed: 0.9, cooldown: 1.6, spread: 0.15, projectiles: 5, splashRadius: 0, ammo: 8 },
+  [WeaponType.HEAVY]: { damage: 30, speed: 0.5, cooldown: 2.5, spread: 0, projectiles: 1, splashRadius: 70, ammo: 5 },
+  [WeaponType.MINE]: { damage: 40, speed: 0, cooldown: 2, spread: 0, projectiles: 1, splashRadius: 60, ammo: 3 },
+};
+
+export const MINE_TRIGGER_RADIUS = 24; // How close an enemy tank's centre must come to set a mine off
+export const MAX_MINES_PER_PLAYER = 5; // Older mines are cleared when a tank lays more
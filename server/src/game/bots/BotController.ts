@@ -0,0 +1,328 @@
+import { Game, Player, PlayerInput } from '../Game';
+import { Pathfinder, GridCell } from './Pathfinder';
+import { Team } from '../../../../shared/GameMode';
+import { TANK_RADIUS, ROTATION_SPEED, FIXED_DT } from '../../../../shared/TankSimulation';
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+interface DifficultySettings {
+  sightRange: number; // How far away a bot notices enemies
+  aimTolerance: number; // Radians off target at which a bot still fires
+  reactionTime: number; // ms between spotting an enemy and opening fire
+  repathInterval: number; // ms between path recalculations
+}
+
+// One rotation step is ~0.36 rad, so tolerances below half of that (TURN_THRESHOLD) could never be met
+export const BOT_DIFFICULTIES: Record<BotDifficulty, DifficultySettings> = {
+  easy: { sightRange: 450, aimTolerance: 0.35, reactionTime: 900, repathInterval: 2000 },
+  normal: { sightRange: 650, aimTolerance: 0.25, reactionTime: 500, repathInterval: 1200 },
+  hard: { sightRange: 850, aimTolerance: 0.19, reactionTime: 200, repathInterval: 700 },
+};
+
+interface Bot {
+  id: string;
+  sequenceId: number;
+  path: GridCell[];
+  nextRepathAt: number;
+  targetId: string | null;
+  targetSince: number; // When the current target was spotted
+  lastX: number;
+  lastY: number;
+  stuckSince: number;
+  reverseUntil: number; // Backing off after getting stuck
+}
+
+type BotInput = Omit<PlayerInput, 'sequenceId'>;
+
+const ENGAGE_DISTANCE = 250; // Bots close in to this range before stopping to fight
+const BASE_ATTACK_DISTANCE = 160; // Range from which a bot shells an enemy base
+const BASE_APPROACH_OFFSET = 80;  // How far in front of a base bots head for
+const WAYPOINT_RADIUS = 12; // Distance at which a waypoint counts as reached
+const MOVE_ANGLE = 0.4; // Radians off course at which a bot still drives forward
+const TURN_THRESHOLD = ROTATION_SPEED * FIXED_DT / 2; // Turning any closer than this would overshoot
+const STUCK_TIME = 1000; // ms without progress before backing off
+const REVERSE_TIME = 500; // ms
+
+let nextBotId = 1;
+
+/**
+ * Bot Controller
+ * Drives AI tanks in one Game. Bots are ordinary players whose input comes from
+ * here instead of a socket: every tick each bot picks a target it can see (or
+ * shoot through brick to), otherwise follows an A* path towards the enemy base
+ * (in 'base' and 'coop' modes) or the nearest enemy, and feeds the resulting
+ * PlayerInput into Game.handleInput. Co-op enemies spawned by the Game are
+ * driven the same way but aren't counted as room bots.
+ */
+export class BotController {
+  private game: Game;
+  private bots = new Map<string, Bot>();
+  private enemies = new Map<string, Bot>(); // Co-op enemies; gone for good once destroyed
+  private pathfinder: Pathfinder;
+  private settings: DifficultySettings;
+  private worldWidth: number;
+  private worldHeight: number;
+
+  constructor(game: Game, difficulty: BotDifficulty = 'normal') {
+    this.game = game;
+    this.settings = BOT_DIFFICULTIES[difficulty];
+    const { width, height } = game.getMapInfo();
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.pathfinder = new Pathfinder(width, height, TANK_RADIUS);
+    this.pathfinder.setMapObjects(game.getMapObjects());
+
+    // Destroyed or fortified walls change what is walkable
+    game.on('map-update', () => this.pathfinder.invalidate());
+    // Inputs decided after a tick are processed on the next one
+    game.on('tick', () => this.update());
+    game.on('enemy-spawned', (player: Player) => this.enemies.set(player.id, this.createBot(player)));
+  }
+
+  getBotCount(): number {
+    return this.bots.size;
+  }
+
+  addBot(): Player {
+    const id = `bot-${nextBotId++}`;
+    const player = this.game.addPlayer(id, true);
+    this.bots.set(id, this.createBot(player));
+    return player;
+  }
+
+  private createBot(player: Player): Bot {
+    return {
+      id: player.id,
+      sequenceId: 0,
+      path: [],
+      nextRepathAt: 0,
+      targetId: null,
+      targetSince: 0,
+      lastX: player.x,
+      lastY: player.y,
+      stuckSince: Date.now(),
+      reverseUntil: 0,
+    };
+  }
+
+  removeBot(id: string) {
+    if (this.bots.delete(id)) {
+      this.game.removePlayer(id);
+    }
+  }
+
+  /**
+   * Add or remove bots until exactly `count` are in the game. New bots are
+   * balanced by Game.addPlayer; bots are removed from the largest team first.
+   */
+  setBotCount(count: number) {
+    while (this.bots.size < count) {
+      this.addBot();
+    }
+    while (this.bots.size > count) {
+      this.removeBot(this.pickBotToRemove());
+    }
+  }
+
+  private pickBotToRemove(): string {
+    const teamSizes = new Map<Team, number>();
+    this.game.getPlayers().forEach((player) => {
+      teamSizes.set(player.team, (teamSizes.get(player.team) ?? 0) + 1);
+    });
+
+    let picked: string | null = null;
+    let pickedTeamSize = -1;
+    this.bots.forEach((_, id) => {
+      const team = this.game.getPlayer(id)?.team ?? Team.NONE;
+      const size = teamSizes.get(team) ?? 0;
+      // >= keeps the most recently added bot among equals
+      if (size >= pickedTeamSize) {
+        picked = id;
+        pickedTeamSize = size;
+      }
+    });
+    return picked!;
+  }
+
+  private update() {
+    const now = Date.now();
+    this.enemies.forEach((bot) => {
+      if (!this.game.getPlayer(bot.id)) this.enemies.delete(bot.id);
+    });
+
+    [...this.bots.values(), ...this.enemies.values()].forEach((bot) => {
+      const player = this.game.getPlayer(bot.id);
+      if (!player || player.dead) {
+        bot.path = [];
+        bot.targetId = null;
+        return;
+      }
+
+      const input = this.think(bot, player, now);
+      this.game.handleInput(bot.id, { ...input, sequenceId: ++bot.sequenceId });
+    });
+  }
+
+  private think(bot: Bot, player: Player, now: number): BotInput {
+    const input: BotInput = { up: false, down: false, left: false, right: false, shoot: false };
+
+    if (now < bot.reverseUntil) {
+      input.down = true;
+      input.left = true;
+      return input;
+    }
+    this.checkStuck(bot, player, now);
+
+    // Engage a visible enemy once the reaction time has passed. Rotation is coarse,
+    // so far-off shots rarely land: keep closing in and fire whenever lined up.
+    const target = this.acquireTarget(bot, player, now);
+    const engaged = target !== null && now - bot.targetSince >= this.settings.reactionTime;
+    if (engaged) {
+      const aim = this.angleTo(player, target.x, target.y);
+      input.shoot = Math.abs(aim) <= this.settings.aimTolerance;
+      const distance = Math.hypot(target.x - player.x, target.y - player.y);
+      // Hold position while turning or once shots would land; if rotation steps
+      // can't line up a hit from here, keep moving to change the angle
+      const onTarget = Math.abs(aim) < Math.PI / 2 && distance * Math.sin(Math.abs(aim)) < TANK_RADIUS;
+      if (distance <= ENGAGE_DISTANCE && (onTarget || Math.abs(aim) > TURN_THRESHOLD)) {
+        this.steer(aim, input);
+        bot.path = []; // Holding position; repath once the fight is over
+        return input;
+      }
+    }
+
+    // Shell the enemy base once in range
+    const base = this.game.getEnemyBase(player);
+    if (base && !engaged) {
+      const baseX = base.x + base.width / 2;
+      const baseY = base.y + base.height / 2;
+      if (Math.hypot(baseX - player.x, baseY - player.y) <= BASE_ATTACK_DISTANCE) {
+        const aim = this.angleTo(player, baseX, baseY);
+        this.steer(aim, input);
+        input.shoot = Math.abs(aim) <= this.settings.aimTolerance;
+        bot.path = [];
+        return input;
+      }
+    }
+
+    // Close in on the target, or head for the enemy base or the nearest enemy along the grid
+    if (now >= bot.nextRepathAt || bot.path.length === 0) {
+      this.repath(bot, player, target);
+      bot.nextRepathAt = now + this.settings.repathInterval;
+    }
+
+    const waypoint = bot.path[0];
+    if (!waypoint) return input;
+
+    const center = this.pathfinder.cellCenter(waypoint);
+    if (Math.hypot(center.x - player.x, center.y - player.y) < WAYPOINT_RADIUS) {
+      bot.path.shift();
+      return input;
+    }
+
+    const angle = this.angleTo(player, center.x, center.y);
+    this.steer(angle, input);
+    if (this.pathfinder.isBrick(waypoint)) {
+      // Brick in the way: shoot it down before driving on
+      input.shoot = input.shoot || Math.abs(angle) <= this.settings.aimTolerance;
+    } else {
+      input.up = Math.abs(angle) <= MOVE_ANGLE;
+    }
+    return input;
+  }
+
+  /**
+   * Pick the nearest enemy in sight range that isn't behind concrete
+   */
+  private acquireTarget(bot: Bot, player: Player, now: number): Player | null {
+    let best: Player | null = null;
+    let bestDistance = this.settings.sightRange;
+
+    this.game.getPlayers().forEach((other) => {
+      if (other.dead || !this.game.isEnemy(player, other)) return;
+      const distance = Math.hypot(other.x - player.x, other.y - player.y);
+      if (distance > bestDistance) return;
+      if (this.game.getLineOfSight(player.x, player.y, other.x, other.y) === 'blocked') return;
+      best = other;
+      bestDistance = distance;
+    });
+
+    const targetId = best ? (best as Player).id : null;
+    if (targetId !== bot.targetId) {
+      bot.targetId = targetId;
+      bot.targetSince = now;
+    }
+    return best;
+  }
+
+  private repath(bot: Bot, player: Player, target: Player | null) {
+    const goal = target ?? this.getBaseApproach(player) ?? this.findNearestEnemy(player);
+    const start = this.pathfinder.cellAt(player.x, player.y);
+    const goalCell = goal
+      ? this.pathfinder.cellAt(goal.x, goal.y)
+      : this.pathfinder.cellAt(Math.random() * this.worldWidth, Math.random() * this.worldHeight);
+    bot.path = this.pathfinder.findPath(start, goalCell) ?? [];
+  }
+
+  /**
+   * A point just in front of the enemy base (on the arena side), or null without one
+   */
+  private getBaseApproach(player: Player): { x: number; y: number } | null {
+    const base = this.game.getEnemyBase(player);
+    if (!base) return null;
+    const x = base.x + base.width / 2;
+    const y = base.y + base.height / 2;
+    const towardsCenter = y < this.worldHeight / 2 ? 1 : -1;
+    return { x, y: y + towardsCenter * (base.height / 2 + BASE_APPROACH_OFFSET) };
+  }
+
+  private findNearestEnemy(player: Player): Player | null {
+    let nearest: Player | null = null;
+    let nearestDistance = Infinity;
+    this.game.getPlayers().forEach((other) => {
+      if (other.dead || !this.game.isEnemy(player, other)) return;
+      const distance = Math.hypot(other.x - player.x, other.y - player.y);
+      if (distance < nearestDistance) {
+        nearest = other;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Back off briefly when a bot has made no progress (e.g. blocked by a tank)
+   */
+  private checkStuck(bot: Bot, player: Player, now: number) {
+    if (Math.hypot(player.x - bot.lastX, player.y - bot.lastY) > 1) {
+      bot.lastX = player.x;
+      bot.lastY = player.y;
+      bot.stuckSince = now;
+      return;
+    }
+    // Standing still is expected while shooting through brick
+    const waiting = bot.path.length > 0 && this.pathfinder.isBrick(bot.path[0]);
+    if (bot.path.length > 0 && !waiting && now - bot.stuckSince > STUCK_TIME) {
+      bot.reverseUntil = now + REVERSE_TIME;
+      bot.stuckSince = now + REVERSE_TIME;
+      bot.path = [];
+    }
+  }
+
+  /**
+   * Angle the tank has to turn to face a point (radians, -PI..PI; positive is clockwise)
+   */
+  private angleTo(player: Player, x: number, y: number): number {
+    // Rotation 0 faces up (-y); forward is (sin r, -cos r)
+    const desired = Math.atan2(x - player.x, player.y - y);
+    let diff = desired - player.rotation;
+    while (diff > Math.PI) diff -= Math.PI * 2;
+    while (diff < -Math.PI) diff += Math.PI * 2;
+    return diff;
+  }
+
+  private steer(angle: number, input: BotInput) {
+    if (angle > TURN_THRESHOLD) input.right = true;
+    else if (angle < -TURN_THRESHOLD) input.left = true;
+  }
+}
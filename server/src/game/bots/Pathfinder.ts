@@ -0,0 +1,210 @@
+/**
+ * Grid Pathfinder for Bots
+ * A* over the map's CELL_SIZE grid. A cell is walkable when a tank centred in it
+ * clears all water and concrete; cells a tank could only enter after shooting
+ * away brick are walkable at a higher cost, so bots go through brick when the
+ * detour around it would be long.
+ */
+
+import { MapObject, MapObjectType, CELL_SIZE, blocksTanks, circleCollidesWithMapObject } from '../MapObject';
+
+export interface GridCell {
+  cx: number;
+  cy: number;
+}
+
+const BLOCKED = 0;
+const OPEN_COST = 1;
+const BRICK_COST = 6; // Stopping to shoot through brick takes a while
+
+/**
+ * Binary min-heap of cell indices keyed by f-score
+ */
+class OpenList {
+  private items: number[] = [];
+  private scores: number[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: number, score: number) {
+    this.items.push(item);
+    this.scores.push(score);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= this.scores[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.items.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+export class Pathfinder {
+  private readonly columns: number;
+  private readonly rows: number;
+  private readonly tankRadius: number;
+  private costs: Uint8Array;
+  private objects: MapObject[] = [];
+  private dirty = true;
+  private readonly MAX_EXPANDED_NODES = 5000; // Bounds the work of one search
+
+  constructor(worldWidth: number, worldHeight: number, tankRadius: number) {
+    this.columns = Math.ceil(worldWidth / CELL_SIZE);
+    this.rows = Math.ceil(worldHeight / CELL_SIZE);
+    this.tankRadius = tankRadius;
+    this.costs = new Uint8Array(this.columns * this.rows);
+  }
+
+  /**
+   * Use a new map; the cost grid is rebuilt before the next search
+   */
+  setMapObjects(objects: MapObject[]) {
+    this.objects = objects;
+    this.dirty = true;
+  }
+
+  /**
+   * Mark the grid stale after a map object changed (e.g. brick destroyed)
+   */
+  invalidate() {
+    this.dirty = true;
+  }
+
+  cellAt(x: number, y: number): GridCell {
+    return {
+      cx: Math.max(0, Math.min(this.columns - 1, Math.floor(x / CELL_SIZE))),
+      cy: Math.max(0, Math.min(this.rows - 1, Math.floor(y / CELL_SIZE))),
+    };
+  }
+
+  cellCenter(cell: GridCell): { x: number; y: number } {
+    return { x: (cell.cx + 0.5) * CELL_SIZE, y: (cell.cy + 0.5) * CELL_SIZE };
+  }
+
+  isBrick(cell: GridCell): boolean {
+    this.rebuildIfDirty();
+    return this.costs[cell.cy * this.columns + cell.cx] === BRICK_COST;
+  }
+
+  /**
+   * Find a path of cells from start to goal (excluding the start cell)
+   * @returns null if the goal can't be reached within the search budget
+   */
+  findPath(start: GridCell, goal: GridCell): GridCell[] | null {
+    this.rebuildIfDirty();
+    const startIndex = start.cy * this.columns + start.cx;
+    const goalIndex = goal.cy * this.columns + goal.cx;
+    if (this.costs[goalIndex] === BLOCKED) return null;
+
+    const gScores = new Map<number, number>([[startIndex, 0]]);
+    const cameFrom = new Map<number, number>();
+    const closed = new Set<number>();
+    const open = new OpenList();
+    open.push(startIndex, this.heuristic(startIndex, goalIndex));
+
+    let expanded = 0;
+    while (open.size > 0 && expanded < this.MAX_EXPANDED_NODES) {
+      const current = open.pop();
+      if (current === goalIndex) {
+        return this.reconstructPath(cameFrom, current, startIndex);
+      }
+      if (closed.has(current)) continue;
+      closed.add(current);
+      expanded++;
+
+      const cx = current % this.columns;
+      const cy = Math.floor(current / this.columns);
+      const neighbours = [
+        cx > 0 ? current - 1 : -1,
+        cx < this.columns - 1 ? current + 1 : -1,
+        cy > 0 ? current - this.columns : -1,
+        cy < this.rows - 1 ? current + this.columns : -1,
+      ];
+
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || closed.has(neighbour)) continue;
+        const cost = this.costs[neighbour];
+        if (cost === BLOCKED) continue;
+
+        const tentative = gScores.get(current)! + cost;
+        if (tentative < (gScores.get(neighbour) ?? Infinity)) {
+          gScores.set(neighbour, tentative);
+          cameFrom.set(neighbour, current);
+          open.push(neighbour, tentative + this.heuristic(neighbour, goalIndex));
+        }
+      }
+    }
+    return null;
+  }
+
+  private heuristic(from: number, to: number): number {
+    const dx = Math.abs((from % this.columns) - (to % this.columns));
+    const dy = Math.abs(Math.floor(from / this.columns) - Math.floor(to / this.columns));
+    return (dx + dy) * OPEN_COST;
+  }
+
+  private reconstructPath(cameFrom: Map<number, number>, end: number, start: number): GridCell[] {
+    const path: GridCell[] = [];
+    let current = end;
+    while (current !== start) {
+      path.push({ cx: current % this.columns, cy: Math.floor(current / this.columns) });
+      current = cameFrom.get(current)!;
+    }
+    return path.reverse();
+  }
+
+  private rebuildIfDirty() {
+    if (!this.dirty) return;
+    this.dirty = false;
+    this.costs.fill(OPEN_COST);
+
+    this.objects.forEach((obj) => {
+      if (!blocksTanks(obj)) return;
+      const cost = obj.type === MapObjectType.BRICK_WALL ? BRICK_COST : BLOCKED;
+      // Test an intact copy: brick cells stay walkable at BRICK_COST
+      const solid = { ...obj, destroyed: false, damage: 0 };
+
+      const min = this.cellAt(obj.x - this.tankRadius, obj.y - this.tankRadius);
+      const max = this.cellAt(obj.x + obj.width + this.tankRadius, obj.y + obj.height + this.tankRadius);
+      for (let cx = min.cx; cx <= max.cx; cx++) {
+        for (let cy = min.cy; cy <= max.cy; cy++) {
+          const index = cy * this.columns + cx;
+          if (this.costs[index] === BLOCKED) continue;
+          const { x, y } = this.cellCenter({ cx, cy });
+          if (circleCollidesWithMapObject(x, y, this.tankRadius, solid)) {
+            this.costs[index] = cost === BLOCKED ? BLOCKED : Math.max(this.costs[index], cost);
+          }
+        }
+      }
+    });
+  }
+}
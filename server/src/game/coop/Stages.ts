@@ -0,0 +1,67 @@
+/**
+ * Co-op Stage Definitions
+ * Enemy tank kinds and the roster of each stage, loaded from data/stages.json
+ * and checked once at startup so a bad edit fails loudly instead of mid-game.
+ */
+
+import stagesData from '../../data/stages.json';
+
+export interface EnemyKind {
+  maxHealth: number;
+  speed: number; // Units per second
+  bulletSpeed: number; // Units per second
+  fireCooldown: number; // ms between shots
+  score: number; // Points for destroying one
+}
+
+export interface StageDefinition {
+  maxAlive: number; // Enemies on the field at once
+  spawnInterval: number; // ms between enemy arrivals
+  roster: { kind: string; count: number }[]; // Arrival order
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function validate(data: typeof stagesData): { enemies: Record<string, EnemyKind>; stages: StageDefinition[] } {
+  const enemies: Record<string, EnemyKind> = data.enemies;
+  Object.entries(enemies).forEach(([name, kind]) => {
+    (['maxHealth', 'speed', 'bulletSpeed', 'fireCooldown', 'score'] as const).forEach((field) => {
+      if (!isPositive(kind[field])) {
+        throw new Error(`stages.json: enemy "${name}" needs a positive ${field}`);
+      }
+    });
+  });
+
+  if (data.stages.length === 0) {
+    throw new Error('stages.json: at least one stage is required');
+  }
+  data.stages.forEach((stage, index) => {
+    if (!Number.isInteger(stage.maxAlive) || stage.maxAlive < 1 || !isPositive(stage.spawnInterval)) {
+      throw new Error(`stages.json: stage ${index + 1} needs a positive maxAlive and spawnInterval`);
+    }
+    stage.roster.forEach(({ kind, count }) => {
+      if (!enemies[kind]) {
+        throw new Error(`stages.json: stage ${index + 1} uses unknown enemy kind "${kind}"`);
+      }
+      if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`stages.json: stage ${index + 1} has an invalid count for "${kind}"`);
+      }
+    });
+  });
+
+  return { enemies, stages: data.stages };
+}
+
+const { enemies, stages } = validate(stagesData);
+
+export const ENEMY_KINDS: Readonly<Record<string, EnemyKind>> = enemies;
+export const STAGES: readonly StageDefinition[] = stages;
+
+/**
+ * Expand a stage roster into the order enemies arrive in
+ */
+export function expandRoster(stage: StageDefinition): string[] {
+  return stage.roster.flatMap(({ kind, count }) => Array<string>(count).fill(kind));
+}
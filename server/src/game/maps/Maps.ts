@@ -0,0 +1,35 @@
+/**
+ * Map Loader
+ * The maps rooms can be played on: the ones bundled in data/maps plus any
+ * *.json map files in an extra directory, parsed and validated at startup so
+ * a broken map fails loudly instead of when a room first picks it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MapDefinition, parseMap, validateMap } from '../../../../shared/MapFormat';
+import classicMap from '../../data/maps/classic.json';
+import emptyMap from '../../data/maps/empty.json';
+
+// Bundled maps are imported rather than read from disk so they ship with the build
+export const CLASSIC_MAP: MapDefinition = validateMap(classicMap, 'classic.json');
+export const EMPTY_MAP: MapDefinition = validateMap(emptyMap, 'empty.json');
+
+/**
+ * Load the bundled maps plus every *.json file in `extraDir`. Extra maps
+ * replace bundled ones of the same name.
+ * @throws Error naming the file (and line or cell) of the first invalid map
+ */
+export function loadMaps(extraDir?: string): Map<string, MapDefinition> {
+  const maps = new Map<string, MapDefinition>([CLASSIC_MAP, EMPTY_MAP].map(map => [map.name, map]));
+  if (!extraDir) return maps;
+
+  fs.readdirSync(extraDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .forEach((file) => {
+      const map = parseMap(fs.readFileSync(path.join(extraDir, file), 'utf8'), file);
+      maps.set(map.name, map);
+    });
+  return maps;
+}
@@ -5,13 +5,28 @@ import mongoose from 'mongoose';
 import cors from 'cors';
 import Score from './models/Score';
 import dotenv from 'dotenv';
-import { Game } from './game/Game';
+import { RoomManager, Room } from './game/RoomManager';
+import { SnapshotBaselines } from './network/SnapshotBaselines';
+import { AreaOfInterest } from './network/AreaOfInterest';
+import { Snapshot } from '../../shared/Snapshot';
+import { SnapshotEncoder, decodeInput } from '../../shared/WireFormat';
+import {
+  PROTOCOL_VERSION,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ClientPayloads,
+  HandshakeAuth,
+  BinaryPayload,
+  isHandshakeAuth,
+  isBinaryPayload,
+  clientPayloadValidators,
+} from '../../shared/Protocol';
 
 dotenv.config();
 
 const app = express();
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
   cors: {
     origin: process.env.FRONT_URI || "http://localhost:5173",
     methods: ["GET", "POST"]
@@ -22,7 +37,7 @@ const io = new Server(httpServer, {
 });
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '1mb' })); // Room for large maps posted by the editor
 
 const PORT = process.env.PORT || 3000;
 const MONGO_URI = process.env.MONGO_URI || 'mongodb://mongo:27017/tank90';
@@ -47,56 +62,226 @@ app.get('/leaderboard', async (req, res) => {
   }
 });
 
-const game = new Game();
+const roomManager = new RoomManager();
+const roomBaselines = new Map<string, SnapshotBaselines>(); // Room ID -> snapshot history and client acks
 
-// Socket.IO connection handling
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
-
-  const player = game.addPlayer(socket.id);
+// Per-connection networking state
+interface ClientState {
+  area: AreaOfInterest;
+  encoder: SnapshotEncoder | null; // Only for binary clients
+  rejectedMessages: number;
+}
+const clients = new Map<string, ClientState>(); // Socket ID -> state
 
-  // Send current game state to the new player (includes map objects)
-  socket.emit('game-state', game.getGameState());
-  
-  // Also send map objects separately for initial load
-  socket.emit('map-objects', game.getMapObjects());
+// Inbound messages that failed validation, by event
+const rejectedMessages = new Map<string, number>();
+const MAX_REJECTED_MESSAGES = 50; // Per client, before it is disconnected
 
-  // Notify other players about the new player
-  socket.broadcast.emit('player-join', player);
+// Playtest uploads each client address may make per PLAYTEST_UPLOAD_WINDOW
+const MAX_PLAYTEST_UPLOADS = 5;
+const PLAYTEST_UPLOAD_WINDOW = 60 * 1000; // ms
+const playtestUploads = new Map<string, number[]>(); // Client address -> times (ms) of its recent uploads
 
-  // Handle player input
-  socket.on('player-input', (input: any) => {
-    game.handleInput(socket.id, input);
+// Map editor playtests: registers the posted map and returns the name to join its private room with
+app.post('/maps/playtest', (req, res) => {
+  const now = Date.now();
+  playtestUploads.forEach((times, address) => {
+    const recent = times.filter(time => now - time < PLAYTEST_UPLOAD_WINDOW);
+    if (recent.length > 0) playtestUploads.set(address, recent);
+    else playtestUploads.delete(address);
   });
+  const address = req.ip ?? '';
+  const uploads = playtestUploads.get(address) ?? [];
+  if (uploads.length >= MAX_PLAYTEST_UPLOADS) {
+    res.status(429).json({ message: 'Too many playtests started, try again in a minute' });
+    return;
+  }
+  playtestUploads.set(address, [...uploads, now]);
 
-  // Handle disconnection
-  socket.on('disconnect', () => {
-    console.log('Client disconnected:', socket.id);
-    game.removePlayer(socket.id);
-    io.emit('player-leave', socket.id);
-  });
+  try {
+    res.json({ name: roomManager.addPlaytestMap(req.body) });
+  } catch (error) {
+    res.status(400).json({ message: (error as Error).message });
+  }
 });
 
-// Broadcast snapshots to all players
-game.on('tick', (snapshot) => {
-  io.emit('s', snapshot);
+// Server stats
+app.get('/stats', (req, res) => {
+  res.json({
+    protocolVersion: PROTOCOL_VERSION,
+    rooms: roomManager.getRooms().length,
+    players: clients.size,
+    rejectedMessages: Object.fromEntries(rejectedMessages),
+  });
 });
 
-// Game event handling
-game.on('health-update', (data) => {
-  io.emit('health-update', data);
+// AOI_RADIUS limits each snapshot to entities near the player's tank (0 sends everything)
+const aoiRadius = Number(process.env.AOI_RADIUS);
+const AOI_RADIUS = Number.isFinite(aoiRadius) && aoiRadius >= 0 ? aoiRadius : 1200;
+const LATENCY_PROBE_INTERVAL = 2000; // ms
+
+// Game events relayed unchanged to every socket in the room
+const ROOM_EVENTS: (keyof ServerToClientEvents)[] = [
+  'health-update',
+  'score-update',
+  'map-update',
+  'player-died',
+  'kill',
+  'powerup-collected',
+  'match-end',
+  'stage-clear',
+  'game-over',
+];
+
+// Game events sent only to the players near where they happen
+const AREA_EVENTS: (keyof ServerToClientEvents)[] = [
+  'bullet-clash',
+  'explosion',
+  'player-respawned',
+];
+
+roomManager.on('room-created', (room: Room) => {
+  console.log('Room created:', room.id, 'map:', room.map);
+
+  // Send each player only their area of interest, as a delta against the last
+  // snapshot they acknowledged
+  const baselines = new SnapshotBaselines();
+  roomBaselines.set(room.id, baselines);
+  room.game.on('tick', (snapshot: Snapshot) => {
+    room.playerIds.forEach((playerId) => {
+      const socket = io.sockets.sockets.get(playerId);
+      const client = clients.get(playerId);
+      if (!socket || !client) return;
+      const delta = baselines.encodeFor(playerId, client.area.filter(snapshot, playerId));
+      socket.emit('s', client.encoder ? client.encoder.encode(delta) : delta);
+    });
+  });
+
+  ROOM_EVENTS.forEach((event) => {
+    room.game.on(event, (data) => {
+      io.to(room.id).emit(event, data);
+    });
+  });
+
+  // Events that give away a position only go to players whose area of interest
+  // covers it (a respawned tank's own player always hears of it)
+  AREA_EVENTS.forEach((event) => {
+    room.game.on(event, (data: { id?: string; x: number; y: number }) => {
+      room.playerIds.forEach((playerId) => {
+        const socket = io.sockets.sockets.get(playerId);
+        const client = clients.get(playerId);
+        if (socket && client && (data.id === playerId || client.area.covers(data.x, data.y))) {
+          socket.emit(event, data);
+        }
+      });
+    });
+  });
 });
 
-game.on('score-update', (data) => {
-  io.emit('score-update', data);
+roomManager.on('room-destroyed', (room: Room) => {
+  console.log('Room destroyed:', room.id);
+  roomBaselines.delete(room.id);
 });
 
-game.on('player-removed', (playerId) => {
-  io.emit('player-leave', playerId);
+/**
+ * Count a malformed inbound message; clients that keep sending them are dropped
+ */
+function rejectMessage(socketId: string, event: string) {
+  rejectedMessages.set(event, (rejectedMessages.get(event) ?? 0) + 1);
+  const client = clients.get(socketId);
+  if (client && ++client.rejectedMessages >= MAX_REJECTED_MESSAGES) {
+    console.warn('Disconnecting client after repeated malformed messages:', socketId);
+    io.sockets.sockets.get(socketId)?.disconnect(true);
+  }
+}
+
+function decodeBinaryInput(payload: BinaryPayload): ClientPayloads['player-input'] | null {
+  try {
+    return decodeInput(payload instanceof Uint8Array ? payload : new Uint8Array(payload));
+  } catch {
+    return null;
+  }
+}
+
+// Only accept clients speaking the current protocol version
+io.use((socket, next) => {
+  if (!isHandshakeAuth(socket.handshake.auth)) {
+    rejectedMessages.set('handshake', (rejectedMessages.get('handshake') ?? 0) + 1);
+    next(new Error(`Unsupported protocol, expected version ${PROTOCOL_VERSION}`));
+    return;
+  }
+  const { map } = socket.handshake.auth as HandshakeAuth;
+  if (map !== undefined && !roomManager.hasMap(map)) {
+    rejectedMessages.set('handshake', (rejectedMessages.get('handshake') ?? 0) + 1);
+    next(new Error(`Unknown map "${map}"`));
+    return;
+  }
+  next();
 });
 
-game.on('map-update', (data) => {
-  io.emit('map-update', data);
+// Socket.IO connection handling
+io.on('connection', (socket) => {
+  console.log('Client connected:', socket.id);
+
+  // Clients pick a map and tank class and opt into the binary wire format in the handshake; JSON stays the default for debugging tools
+  const auth = socket.handshake.auth as HandshakeAuth;
+  const { room } = roomManager.joinRoom(socket.id, auth.map, auth.tankClass);
+  socket.join(room.id);
+  clients.set(socket.id, {
+    area: new AreaOfInterest(AOI_RADIUS),
+    encoder: auth.protocol === 'binary' ? new SnapshotEncoder() : null,
+    rejectedMessages: 0,
+  });
+
+  // Send the map for the initial load; tanks arrive with the first snapshot
+  socket.emit('map-info', room.game.getMapInfo());
+  socket.emit('map-objects', room.game.getMapObjects());
+
+  // Handle player input
+  socket.on('player-input', (payload) => {
+    const input = isBinaryPayload(payload) ? decodeBinaryInput(payload) : payload;
+    if (!clientPayloadValidators['player-input'](input)) {
+      rejectMessage(socket.id, 'player-input');
+      return;
+    }
+    room.game.handleInput(socket.id, input);
+  });
+
+  // Snapshot acknowledgements move the client's delta baseline forward
+  socket.on('snapshot-ack', (tick) => {
+    if (!clientPayloadValidators['snapshot-ack'](tick)) {
+      rejectMessage(socket.id, 'snapshot-ack');
+      return;
+    }
+    roomBaselines.get(room.id)?.acknowledge(socket.id, tick);
+  });
+
+  // A new class takes effect when the player's tank next respawns
+  socket.on('select-class', (tankClass) => {
+    if (!clientPayloadValidators['select-class'](tankClass)) {
+      rejectMessage(socket.id, 'select-class');
+      return;
+    }
+    room.game.selectClass(socket.id, tankClass);
+  });
+
+  // Measure round-trip latency for lag-compensated hit detection
+  const latencyProbe = setInterval(() => {
+    const sentAt = Date.now();
+    socket.emit('latency-probe', () => {
+      room.game.setPlayerLatency(socket.id, Date.now() - sentAt);
+    });
+  }, LATENCY_PROBE_INTERVAL);
+
+  // Handle disconnection
+  socket.on('disconnect', () => {
+    console.log('Client disconnected:', socket.id);
+    clearInterval(latencyProbe);
+    roomBaselines.get(room.id)?.removeClient(socket.id);
+    clients.delete(socket.id);
+    roomManager.leaveRoom(socket.id);
+    io.to(room.id).emit('player-leave', socket.id);
+  });
 });
 
 httpServer.listen(PORT, () => {
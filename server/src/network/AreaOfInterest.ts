@@ -0,0 +1,70 @@
+import { Snapshot } from '../../../shared/Snapshot';
+
+/**
+ * Area of Interest
+ * Culls a room snapshot down to what one player can plausibly see: their own
+ * tank plus every entity within a radius of it. An entity enters the area at
+ * `radius` and only leaves beyond `radius + leaveMargin`, so things hovering at
+ * the edge don't flicker in and out. Entering and leaving show up to the client
+ * as additions and removals in its delta snapshots. Events that happen at a
+ * point are checked against the area with covers().
+ */
+export class AreaOfInterest {
+  private visible = new Set<string>(); // IDs of entities currently in the area
+  private centre: { x: number; y: number } | null = null; // Viewer's tank as of the last filtered snapshot
+  private readonly radius: number;
+  private readonly leaveMargin: number;
+
+  constructor(radius: number, leaveMargin: number = 200) {
+    this.radius = radius;
+    this.leaveMargin = leaveMargin;
+  }
+
+  /**
+   * Filter a snapshot for the given viewer (a radius of 0 disables culling)
+   */
+  filter(snapshot: Snapshot, viewerId: string): Snapshot {
+    const viewer = snapshot.p.find(p => p.id === viewerId);
+    this.centre = viewer ? { x: viewer.x, y: viewer.y } : null;
+    if (this.radius <= 0 || !viewer) {
+      return snapshot;
+    }
+
+    const enterDistanceSq = this.radius * this.radius;
+    const leaveDistance = this.radius + this.leaveMargin;
+    const leaveDistanceSq = leaveDistance * leaveDistance;
+    const visible = new Set<string>();
+
+    const inArea = (entity: { id: string; x: number; y: number }) => {
+      const dx = entity.x - viewer.x;
+      const dy = entity.y - viewer.y;
+      const distanceSq = dx * dx + dy * dy;
+      const threshold = this.visible.has(entity.id) ? leaveDistanceSq : enterDistanceSq;
+      if (distanceSq <= threshold) {
+        visible.add(entity.id);
+        return true;
+      }
+      return false;
+    };
+
+    // Match state and any other non-entity fields pass through unfiltered
+    const filtered: Snapshot = {
+      ...snapshot,
+      p: snapshot.p.filter(p => p.id === viewerId || inArea(p)),
+      b: snapshot.b.filter(inArea),
+      pk: snapshot.pk.filter(inArea),
+    };
+    this.visible = visible;
+    return filtered;
+  }
+
+  /**
+   * Whether a point is close enough to the viewer to be seen (always, until
+   * the viewer has a tank or with culling disabled)
+   */
+  covers(x: number, y: number): boolean {
+    if (this.radius <= 0 || !this.centre) return true;
+    const reach = this.radius + this.leaveMargin;
+    return (x - this.centre.x) ** 2 + (y - this.centre.y) ** 2 <= reach * reach;
+  }
+}
@@ -0,0 +1,57 @@
+import { Snapshot, DeltaSnapshot, diffSnapshot } from '../../../shared/Snapshot';
+
+/**
+ * Snapshot Baselines
+ * Keeps the recent snapshots sent to each client and the last tick each client
+ * acknowledged, so every client is sent a delta against a state it is known to
+ * have. Clients whose ack is missing or too old get a full snapshot.
+ * History is per client because each client sees its own area of interest.
+ */
+export class SnapshotBaselines {
+  private history = new Map<string, Map<number, Snapshot>>(); // Client ID -> tick -> snapshot
+  private acks = new Map<string, number>(); // Client ID -> last acknowledged tick
+  private readonly capacity: number;
+
+  constructor(capacity: number = 64) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Record that a client received the snapshot of the given tick
+   */
+  acknowledge(clientId: string, tick: number): void {
+    if (!Number.isInteger(tick)) return;
+    const current = this.acks.get(clientId);
+    if (current === undefined || tick > current) {
+      this.acks.set(clientId, tick);
+    }
+  }
+
+  removeClient(clientId: string): void {
+    this.history.delete(clientId);
+    this.acks.delete(clientId);
+  }
+
+  /**
+   * Store the snapshot a client is about to be sent and encode it against
+   * that client's acknowledged baseline
+   */
+  encodeFor(clientId: string, snapshot: Snapshot): DeltaSnapshot {
+    let history = this.history.get(clientId);
+    if (!history) {
+      history = new Map();
+      this.history.set(clientId, history);
+    }
+
+    const ackedTick = this.acks.get(clientId);
+    const base = ackedTick !== undefined ? history.get(ackedTick) : undefined;
+
+    history.set(snapshot.t, snapshot);
+    if (history.size > this.capacity) {
+      const oldest = history.keys().next().value as number;
+      history.delete(oldest);
+    }
+
+    return diffSnapshot(base, snapshot);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Game Modes and Teams
+ * Shared by the server (team assignment, scoring) and the client (team colors,
+ * scoreboard).
+ */
+
+// 'ffa': every tank for itself; 'tdm': two teams race to a kill limit;
+// 'base': each team defends its base, and the match ends when one falls;
+// 'coop': players (red) share a base and survive stages of enemy tanks (blue)
+export type GameMode = 'ffa' | 'tdm' | 'base' | 'coop';
+
+export const GAME_MODES: GameMode[] = ['ffa', 'tdm', 'base', 'coop'];
+
+export const COOP_MAX_PLAYERS = 4;
+
+export enum Team {
+  NONE = 0, // Free-for-all
+  RED = 1,
+  BLUE = 2,
+}
+
+export const TEAMS: Team[] = [Team.RED, Team.BLUE];
+
+export const TEAM_COLORS: Record<Team, number> = {
+  [Team.NONE]: 0xFFFFFF, // Untinted sprite
+  [Team.RED]: 0xFF6060,
+  [Team.BLUE]: 0x6080FF,
+};
+
+export const TEAM_NAMES: Record<Team, string> = {
+  [Team.NONE]: '',
+  [Team.RED]: 'Red',
+  [Team.BLUE]: 'Blue',
+};
+
+export function isTeamMode(mode: GameMode): boolean {
+  return mode !== 'ffa';
+}
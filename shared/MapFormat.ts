@@ -0,0 +1,324 @@
+/**
+ * Map File Format
+ * Maps are versioned JSON documents holding the world size, spawn points,
+ * metadata and a list of tiles (rectangles of one terrain type, sized in
+ * cells). Parsing and validation live here so the server loader and map tools
+ * report the same errors, each naming the line (malformed JSON) or the entry
+ * and cell at fault.
+ */
+
+import { MapObject, MapObjectType, CELL_SIZE, blocksTanks, pointInMapObject } from './MapObject';
+
+export const MAP_FORMAT = 'tank90-map';
+// Bump when the file layout changes; older versions must still load
+export const MAP_FORMAT_VERSION = 1;
+
+// Terrain a map file may place; bases come from the game mode
+export type TileType =
+  | MapObjectType.BRICK_WALL
+  | MapObjectType.CONCRETE_WALL
+  | MapObjectType.STEEL
+  | MapObjectType.WATER
+  | MapObjectType.ICE
+  | MapObjectType.TREE
+  | MapObjectType.BUSH;
+
+export const TILE_TYPES: TileType[] = [
+  MapObjectType.BRICK_WALL,
+  MapObjectType.CONCRETE_WALL,
+  MapObjectType.STEEL,
+  MapObjectType.WATER,
+  MapObjectType.ICE,
+  MapObjectType.TREE,
+  MapObjectType.BUSH,
+];
+
+// Tile types bullets can destroy; they start out intact
+const DESTRUCTIBLE_TILES: TileType[] = [MapObjectType.BRICK_WALL, MapObjectType.STEEL, MapObjectType.BUSH];
+
+export interface MapTile {
+  type: TileType;
+  x: number; // Top-left corner (world units)
+  y: number;
+  w?: number; // Width in cells (default 1)
+  h?: number; // Height in cells (default 1)
+}
+
+export interface MapSpawn {
+  x: number;
+  y: number;
+}
+
+export interface MapDefinition {
+  format: typeof MAP_FORMAT;
+  version: number;
+  name: string; // Identifier rooms select the map by
+  title: string;
+  author?: string;
+  description?: string;
+  width: number; // World size (units, a whole number of cells)
+  height: number;
+  seed?: number; // Generator seed of a procedurally generated map
+  ricochet?: number; // Times bullets bounce off concrete in rooms on this map (overrides the server's setting)
+  spawns: MapSpawn[];
+  tiles: MapTile[];
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const MAX_WORLD_SIZE = CELL_SIZE * 500;
+export const MAX_RICOCHET = 10;
+
+// How big a map may be; every tile cell becomes a map object once a room loads it
+export interface MapLimits {
+  maxWorldSize: number; // Width and height (units)
+  maxTileCells: number; // Cells covered by all tiles together
+}
+
+const FILE_LIMITS: MapLimits = { maxWorldSize: MAX_WORLD_SIZE, maxTileCells: (MAX_WORLD_SIZE / CELL_SIZE) ** 2 };
+
+// Maps anyone can upload for a playtest: a few times the bundled maps' size
+export const UPLOAD_LIMITS: MapLimits = { maxWorldSize: CELL_SIZE * 200, maxTileCells: 20000 };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWhole(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+function cellOf(x: number, y: number): string {
+  return `cell ${Math.floor(x / CELL_SIZE)},${Math.floor(y / CELL_SIZE)}`;
+}
+
+// The area a tile covers, as a map object for the shared collision helpers
+function tileArea(tile: MapTile): MapObject {
+  return {
+    id: '',
+    type: tile.type,
+    x: tile.x,
+    y: tile.y,
+    width: (tile.w ?? 1) * CELL_SIZE,
+    height: (tile.h ?? 1) * CELL_SIZE,
+  };
+}
+
+function rectanglesOverlap(a: MapObject, b: MapObject): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Index of the first pair of tiles covering the same ground, or null when none
+ * do. Tiles are bucketed by the cells they touch so only neighbours are compared.
+ */
+function findOverlap(tiles: MapTile[]): [number, number] | null {
+  const buckets = new Map<string, number[]>();
+  for (let index = 0; index < tiles.length; index++) {
+    const area = tileArea(tiles[index]);
+    const seen = new Set<number>();
+    for (let cx = Math.floor(area.x / CELL_SIZE); cx * CELL_SIZE < area.x + area.width; cx++) {
+      for (let cy = Math.floor(area.y / CELL_SIZE); cy * CELL_SIZE < area.y + area.height; cy++) {
+        const key = `${cx},${cy}`;
+        const bucket = buckets.get(key) ?? [];
+        for (const other of bucket) {
+          if (!seen.has(other) && rectanglesOverlap(area, tileArea(tiles[other]))) return [other, index];
+          seen.add(other);
+        }
+        bucket.push(index);
+        buckets.set(key, bucket);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 1-based line and column of a character offset
+ */
+function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+const JSON_STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const JSON_LITERAL = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Offset of the first syntax error in JSON text, or -1 when it is well-formed
+ * (JSON.parse only reports a position on some engines)
+ */
+function findSyntaxError(text: string): number {
+  let i = 0;
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+  const token = (pattern: RegExp): boolean => {
+    pattern.lastIndex = i;
+    const match = pattern.exec(text);
+    if (match) i += match[0].length;
+    return match !== null;
+  };
+  const container = (close: string, keyed: boolean): boolean => {
+    i++;
+    skipWhitespace();
+    if (text[i] === close) {
+      i++;
+      return true;
+    }
+    for (;;) {
+      if (keyed) {
+        skipWhitespace();
+        if (!token(JSON_STRING)) return false;
+        skipWhitespace();
+        if (text[i] !== ':') return false;
+        i++;
+      }
+      if (!value()) return false;
+      skipWhitespace();
+      if (text[i] === close) {
+        i++;
+        return true;
+      }
+      if (text[i] !== ',') return false;
+      i++;
+    }
+  };
+  const value = (): boolean => {
+    skipWhitespace();
+    if (text[i] === '{') return container('}', true);
+    if (text[i] === '[') return container(']', false);
+    return token(JSON_STRING) || token(JSON_LITERAL);
+  };
+
+  if (!value()) return i;
+  skipWhitespace();
+  return i < text.length ? i : -1;
+}
+
+/**
+ * Parse and validate a map file
+ * @param source - File name used as the prefix of error messages
+ * @param limits - Size limits (those of map files by default)
+ * @throws Error describing the first problem found
+ */
+export function parseMap(text: string, source: string, limits: MapLimits = FILE_LIMITS): MapDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    const { line, column } = lineAndColumn(text, Math.max(0, findSyntaxError(text)));
+    throw new Error(`${source}: line ${line}, column ${column}: invalid JSON`);
+  }
+  return validateMap(data, source, limits);
+}
+
+/**
+ * Validate an already-parsed map document
+ * @throws Error describing the first problem found
+ */
+export function validateMap(data: unknown, source: string, limits: MapLimits = FILE_LIMITS): MapDefinition {
+  const fail = (location: string, message: string): never => {
+    throw new Error(`${source}: ${location}: ${message}`);
+  };
+
+  if (!isObject(data)) fail('top level', 'expected an object');
+  const map = data as Record<string, unknown>;
+
+  if (map.format !== MAP_FORMAT) fail('format', `expected "${MAP_FORMAT}"`);
+  if (!isWhole(map.version) || map.version < 1) fail('version', 'expected a positive integer');
+  if ((map.version as number) > MAP_FORMAT_VERSION) {
+    fail('version', `version ${map.version} is newer than this build supports (${MAP_FORMAT_VERSION})`);
+  }
+  if (typeof map.name !== 'string' || !NAME_PATTERN.test(map.name)) {
+    fail('name', 'expected lowercase letters, digits and dashes');
+  }
+  if (typeof map.title !== 'string' || map.title.trim() === '') fail('title', 'expected a non-empty string');
+  (['author', 'description'] as const).forEach((field) => {
+    if (map[field] !== undefined && typeof map[field] !== 'string') fail(field, 'expected a string');
+  });
+  (['width', 'height'] as const).forEach((field) => {
+    const size = map[field];
+    if (!isWhole(size) || size < CELL_SIZE * 10 || size > limits.maxWorldSize || size % CELL_SIZE !== 0) {
+      fail(field, `expected a multiple of ${CELL_SIZE} between ${CELL_SIZE * 10} and ${limits.maxWorldSize}`);
+    }
+  });
+  if (map.seed !== undefined && (!isWhole(map.seed) || map.seed < 0)) fail('seed', 'expected a non-negative integer');
+  if (map.ricochet !== undefined && (!isWhole(map.ricochet) || map.ricochet < 0 || map.ricochet > MAX_RICOCHET)) {
+    fail('ricochet', `expected an integer between 0 and ${MAX_RICOCHET}`);
+  }
+  const width = map.width as number;
+  const height = map.height as number;
+
+  if (!Array.isArray(map.tiles)) fail('tiles', 'expected an array');
+  const tiles = map.tiles as unknown[];
+  let tileCells = 0;
+  tiles.forEach((tile, index) => {
+    const location = `tiles[${index}]`;
+    if (!isObject(tile)) fail(location, 'expected an object');
+    const { type, x, y, w = 1, h = 1 } = tile as Record<string, unknown>;
+    if (!isWhole(x) || !isWhole(y) || x < 0 || y < 0) fail(location, 'x and y must be non-negative integers');
+    const at = `${location} (${cellOf(x as number, y as number)})`;
+    if (!TILE_TYPES.includes(type as TileType)) fail(at, `unknown tile type ${JSON.stringify(type)}`);
+    if (!isWhole(w) || !isWhole(h) || w < 1 || h < 1) fail(at, 'w and h must be positive integers');
+    if ((x as number) + (w as number) * CELL_SIZE > width || (y as number) + (h as number) * CELL_SIZE > height) {
+      fail(at, `extends past the ${width}x${height} world`);
+    }
+    tileCells += (w as number) * (h as number);
+    if (tileCells > limits.maxTileCells) fail(at, `tiles cover more than ${limits.maxTileCells} cells in total`);
+  });
+  const overlap = findOverlap(tiles as MapTile[]);
+  if (overlap) {
+    const [first, second] = overlap;
+    const { x, y } = tiles[second] as MapTile;
+    fail(`tiles[${second}] (${cellOf(x, y)})`, `overlaps tiles[${first}]`);
+  }
+
+  if (!Array.isArray(map.spawns) || map.spawns.length === 0) fail('spawns', 'expected at least one spawn point');
+  (map.spawns as unknown[]).forEach((spawn, index) => {
+    const location = `spawns[${index}]`;
+    if (!isObject(spawn) || !isWhole(spawn.x) || !isWhole(spawn.y)) fail(location, 'expected integer x and y');
+    const { x, y } = spawn as unknown as MapSpawn;
+    const at = `${location} (${cellOf(x, y)})`;
+    if (x <= 0 || y <= 0 || x >= width || y >= height) fail(at, 'outside the world');
+    const blocker = (tiles as MapTile[]).findIndex(tile => blocksTanks(tileArea(tile)) && pointInMapObject(x, y, tileArea(tile)));
+    if (blocker >= 0) fail(at, `inside tiles[${blocker}] (${(tiles[blocker] as MapTile).type})`);
+  });
+
+  return map as unknown as MapDefinition;
+}
+
+/**
+ * Map file text laid out like the bundled maps: one field, spawn point or
+ * tile per line
+ */
+export function serializeMap(map: MapDefinition): string {
+  const inline = (item: object) => `{ ${Object.entries(item).map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(', ')} }`;
+  const list = (items: object[]) => (items.length > 0 ? `[\n${items.map(item => `    ${inline(item)}`).join(',\n')}\n  ]` : '[]');
+  const { spawns, tiles, ...header } = map;
+  const fields = Object.entries(header).map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+  return `{\n${[...fields, `  "spawns": ${list(spawns)}`, `  "tiles": ${list(tiles)}`].join(',\n')}\n}\n`;
+}
+
+/**
+ * Expand a map's tiles into one map object per cell
+ */
+export function buildMapObjects(map: MapDefinition): MapObject[] {
+  const objects: MapObject[] = [];
+  map.tiles.forEach((tile, index) => {
+    for (let dx = 0; dx < (tile.w ?? 1); dx++) {
+      for (let dy = 0; dy < (tile.h ?? 1); dy++) {
+        objects.push({
+          id: `${tile.type}-${index}-${dx}-${dy}`,
+          type: tile.type,
+          x: tile.x + dx * CELL_SIZE,
+          y: tile.y + dy * CELL_SIZE,
+          width: CELL_SIZE,
+          height: CELL_SIZE,
+          ...(DESTRUCTIBLE_TILES.includes(tile.type) ? { destroyed: false } : {}),
+          ...(tile.type === MapObjectType.BRICK_WALL ? { damage: 0 } : {}),
+        });
+      }
+    }
+  });
+  return objects;
+}
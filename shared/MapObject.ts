@@ -0,0 +1,119 @@
+/**
+ * Map Object Types and Collision Helpers
+ * Shared by the server and the client so both agree on what blocks a tank
+ */
+
+export enum MapObjectType {
+  BRICK_WALL = 'brick_wall',
+  CONCRETE_WALL = 'concrete_wall',
+  WATER = 'water',
+  TREE = 'tree',
+  ICE = 'ice', // Floor tanks slide on, keeping their momentum
+  STEEL = 'steel', // Armor plating: blocks like concrete, but a powered-up bullet breaks it
+  BUSH = 'bush', // Hides tanks like a tree; one bullet clears it
+  BASE = 'base', // A team's base ("eagle"): one bullet destroys it
+}
+
+// Size of a map grid cell in world units; map objects are laid out on this grid
+export const CELL_SIZE = 40;
+
+// Brick cells are chipped away in quarters. Bit i of a brick's `damage` is set
+// once quarter i is gone: 0 top-left, 1 top-right, 2 bottom-left, 3 bottom-right.
+export const BRICK_QUARTERS = 4;
+export const BRICK_FULLY_DAMAGED = (1 << BRICK_QUARTERS) - 1;
+
+export interface MapObject {
+  id: string;
+  type: MapObjectType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  destroyed?: boolean; // For brick walls, steel, bushes and bases; a brick is destroyed once every quarter is gone
+  damage?: number; // For brick walls: bitmask of destroyed quarters (see BRICK_QUARTERS)
+  team?: number; // For bases: the owning team
+}
+
+/**
+ * Whether a map object stops tank movement
+ * (water, concrete, bases and intact brick and steel do; trees, bushes and ice don't)
+ */
+export function blocksTanks(obj: MapObject): boolean {
+  return obj.type === MapObjectType.WATER ||
+    obj.type === MapObjectType.CONCRETE_WALL ||
+    obj.type === MapObjectType.BASE ||
+    ((obj.type === MapObjectType.BRICK_WALL || obj.type === MapObjectType.STEEL) && !obj.destroyed);
+}
+
+type Rect = Pick<MapObject, 'x' | 'y' | 'width' | 'height'>;
+
+/**
+ * The area of one quarter of a brick cell
+ */
+export function brickQuarterRect(obj: MapObject, quarter: number): Rect {
+  const width = obj.width / 2;
+  const height = obj.height / 2;
+  return { x: obj.x + (quarter % 2) * width, y: obj.y + Math.floor(quarter / 2) * height, width, height };
+}
+
+/**
+ * Which quarter of a brick cell a point inside it falls in
+ */
+export function brickQuarterAt(obj: MapObject, x: number, y: number): number {
+  return (x >= obj.x + obj.width / 2 ? 1 : 0) + (y >= obj.y + obj.height / 2 ? 2 : 0);
+}
+
+/**
+ * The parts of a map object that are still solid: the intact quarters of a
+ * chipped brick, otherwise the whole object
+ */
+function solidRects(obj: MapObject): Rect[] {
+  const damage = obj.type === MapObjectType.BRICK_WALL ? obj.damage ?? 0 : 0;
+  if (damage === 0) return [obj];
+  const rects: Rect[] = [];
+  for (let quarter = 0; quarter < BRICK_QUARTERS; quarter++) {
+    if (!(damage & (1 << quarter))) rects.push(brickQuarterRect(obj, quarter));
+  }
+  return rects;
+}
+
+/**
+ * Check if a point is within a map object (for a brick, within an intact quarter)
+ */
+export function pointInMapObject(x: number, y: number, obj: MapObject): boolean {
+  if (!(x >= obj.x && x < obj.x + obj.width && y >= obj.y && y < obj.y + obj.height)) return false;
+  return obj.type !== MapObjectType.BRICK_WALL || !((obj.damage ?? 0) & (1 << brickQuarterAt(obj, x, y)));
+}
+
+/**
+ * Check if a circle (tank) collides with a map object
+ */
+export function circleCollidesWithMapObject(
+  circleX: number,
+  circleY: number,
+  radius: number,
+  obj: MapObject
+): boolean {
+  if (obj.destroyed && (obj.type === MapObjectType.BRICK_WALL || obj.type === MapObjectType.STEEL)) {
+    return false; // Destroyed walls don't block
+  }
+
+  // Trees and bushes are only visual and ice is floor; water blocks movement
+  if (obj.type === MapObjectType.TREE || obj.type === MapObjectType.BUSH || obj.type === MapObjectType.ICE) {
+    return false;
+  }
+
+  // Find closest point on each solid rectangle to circle center
+  return solidRects(obj).some((rect) => {
+    const closestX = Math.max(rect.x, Math.min(circleX, rect.x + rect.width));
+    const closestY = Math.max(rect.y, Math.min(circleY, rect.y + rect.height));
+
+    // Calculate distance from circle center to closest point
+    const dx = circleX - closestX;
+    const dy = circleY - closestY;
+    const distanceSquared = dx * dx + dy * dy;
+
+    return distanceSquared < radius * radius;
+  });
+}
+
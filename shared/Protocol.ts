@@ -0,0 +1,194 @@
+/**
+ * Socket Protocol
+ * The single definition of every socket.io event exchanged between client and
+ * server: names, payload types and the protocol version. The server validates
+ * every inbound payload at runtime with the validators below; the client's
+ * WebSocketService is typed from the same event maps.
+ */
+
+import { MapObject } from './MapObject';
+import { Team } from './GameMode';
+import { DeltaSnapshot } from './Snapshot';
+import { WireProtocol, WireInput } from './WireFormat';
+import { TankClass, isTankClass } from './TankClass';
+
+// Bump whenever an event or payload changes incompatibly
+export const PROTOCOL_VERSION = 11;
+
+/**
+ * Sent by the client as socket.io handshake `auth`
+ */
+export interface HandshakeAuth {
+  version: number;
+  protocol?: WireProtocol;
+  map?: string; // Name of the map to play; the server default when omitted
+  tankClass?: TankClass; // Class of the player's first tank; the default class when omitted
+}
+
+// Binary frames are sent as Uint8Array and arrive as ArrayBuffer (browser) or Buffer (Node)
+export type BinaryPayload = ArrayBuffer | Uint8Array;
+
+export type PlayerInputPayload = WireInput;
+
+export interface PlayerPayload {
+  id: string;
+  x: number;
+  y: number;
+  rotation: number;
+  color: number;
+  health: number;
+  score: number;
+}
+
+export interface MapInfoPayload {
+  name: string;
+  title: string;
+  width: number; // World size (units)
+  height: number;
+  seed?: number; // Generator seed, for generated maps ('generated-<seed>' replays it)
+}
+
+// Armor plate a hit landed on, relative to the tank's heading
+export type HitSide = 'front' | 'left' | 'right' | 'rear';
+
+export interface HealthUpdatePayload {
+  id: string;
+  health: number;
+  // Set when the change is a hit (regeneration leaves them out)
+  side?: HitSide; // Left out for hits with no direction (bombs)
+  attackerId?: string;
+  deflected?: boolean; // The shell glanced off the armor without doing damage
+}
+
+export interface ScoreUpdatePayload {
+  playerId: string;
+  score: number;
+}
+
+export interface MapUpdatePayload {
+  objectId: string;
+  destroyed: boolean;
+  type?: string;
+  damage?: number; // Brick walls: bitmask of destroyed quarters (see BRICK_QUARTERS)
+}
+
+export interface BulletClashPayload {
+  x: number; // Where two opposing bullets cancelled out
+  y: number;
+}
+
+export interface ExplosionPayload {
+  x: number;
+  y: number;
+  radius: number; // Splash radius (units)
+}
+
+export interface PlayerDiedPayload {
+  id: string;
+  killerId?: string;
+  respawnIn: number; // ms
+}
+
+export interface KillPayload {
+  killerId?: string; // Left out when the attacker has left the game
+  victimId: string;
+  assisterIds: string[]; // Other enemies who hit the victim shortly before
+  weapon: string; // Weapon that dealt the fatal hit, or 'bomb'
+}
+
+export interface PowerUpCollectedPayload {
+  playerId: string;
+  pickupId: string;
+  type: string;
+}
+
+export interface MatchEndPayload {
+  winner: Team; // Team.NONE for a draw
+  reason: 'score' | 'time' | 'base'; // Kill limit reached, time ran out, or a base fell
+  scores: Partial<Record<Team, number>>;
+  nextMatchIn: number; // ms
+}
+
+export interface StageClearPayload {
+  stage: number; // The stage just cleared (1-based)
+  nextStageIn: number; // ms
+}
+
+export interface GameOverPayload {
+  victory: boolean; // Every stage cleared, rather than the base lost
+  stage: number; // Stage reached (1-based)
+  restartIn: number; // ms until the run starts over from stage 1
+}
+
+export interface ServerToClientEvents {
+  'map-info': (info: MapInfoPayload) => void;
+  'map-objects': (objects: MapObject[]) => void;
+  'player-leave': (playerId: string) => void;
+  's': (snapshot: DeltaSnapshot | BinaryPayload) => void;
+  'latency-probe': (ack: () => void) => void;
+  'health-update': (data: HealthUpdatePayload) => void;
+  'score-update': (data: ScoreUpdatePayload) => void;
+  'map-update': (data: MapUpdatePayload) => void;
+  'bullet-clash': (data: BulletClashPayload) => void;
+  'explosion': (data: ExplosionPayload) => void;
+  'player-died': (data: PlayerDiedPayload) => void;
+  'kill': (data: KillPayload) => void;
+  'player-respawned': (player: PlayerPayload) => void;
+  'powerup-collected': (data: PowerUpCollectedPayload) => void;
+  'match-end': (data: MatchEndPayload) => void;
+  'stage-clear': (data: StageClearPayload) => void;
+  'game-over': (data: GameOverPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  'player-input': (input: PlayerInputPayload | BinaryPayload) => void;
+  'snapshot-ack': (tick: number) => void;
+  'select-class': (tankClass: TankClass) => void;
+}
+
+/**
+ * Decoded payload of each client event (binary inputs are decoded before validation)
+ */
+export interface ClientPayloads {
+  'player-input': PlayerInputPayload;
+  'snapshot-ack': number;
+  'select-class': TankClass;
+}
+
+type Validator<T> = (value: unknown) => value is T;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+export function isHandshakeAuth(value: unknown): value is HandshakeAuth {
+  return isObject(value) &&
+    value.version === PROTOCOL_VERSION &&
+    (value.protocol === undefined || value.protocol === 'json' || value.protocol === 'binary') &&
+    (value.map === undefined || typeof value.map === 'string') &&
+    (value.tankClass === undefined || isTankClass(value.tankClass));
+}
+
+export function isPlayerInput(value: unknown): value is PlayerInputPayload {
+  return isObject(value) &&
+    typeof value.up === 'boolean' &&
+    typeof value.down === 'boolean' &&
+    typeof value.left === 'boolean' &&
+    typeof value.right === 'boolean' &&
+    typeof value.shoot === 'boolean' &&
+    isCount(value.sequenceId);
+}
+
+export function isBinaryPayload(value: unknown): value is BinaryPayload {
+  return value instanceof ArrayBuffer || value instanceof Uint8Array;
+}
+
+export const clientPayloadValidators: { [E in keyof ClientPayloads]: Validator<ClientPayloads[E]> } = {
+  'player-input': isPlayerInput,
+  'snapshot-ack': isCount,
+  'select-class': isTankClass,
+};
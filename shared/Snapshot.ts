@@ -0,0 +1,199 @@
+/**
+ * Snapshot Wire Format and Delta Compression
+ * The server keeps recent full snapshots and sends each client only what changed
+ * since the last snapshot that client acknowledged; the client applies the delta
+ * to its copy of that baseline to rebuild the full state.
+ */
+
+export interface SnapshotPlayer {
+  id: string;
+  x: number;
+  y: number;
+  r: number; // Rotation * 100
+  h: number; // Health
+  s: number; // Score
+  sid: number; // Last processed input sequence ID
+  d: number; // 1 while destroyed
+  pr: number; // 1 while spawn protected
+  fx: number; // Active power-up effect flags
+  lv: number; // Extra lives
+  ai: number; // 1 for bots
+  tm: number; // Team (0 in free-for-all)
+  mh: number; // Max health
+  k: string; // Tank kind ('' for player tanks; co-op enemy kind otherwise)
+  vx: number; // Velocity kept while sliding on ice (units per second)
+  vy: number;
+  wp: string; // Weapon
+  tc: string; // Tank class
+  am: number; // Ammo left for a special weapon (0 with the cannon)
+  kl: number; // Kills this match
+  dt: number; // Deaths this match
+  as: number; // Assists this match
+}
+
+export interface SnapshotBullet {
+  id: string;
+  x: number;
+  y: number;
+  dx: number; // Direction * 100
+  dy: number;
+  sp: number; // Speed (units per second)
+  w: string; // Weapon that fired it (0 speed for a mine)
+}
+
+export interface SnapshotPickup {
+  id: string;
+  k: string; // Power-up type
+  x: number;
+  y: number;
+  e: number; // Remaining lifetime (ms)
+}
+
+// Match progress; only present in modes that have one
+export interface SnapshotMatch {
+  md: string; // Game mode
+  t1: number; // Red team score
+  t2: number; // Blue team score
+  tl: number; // Seconds left (0 without a time limit)
+  ov: number; // 1 between the end of a match (or co-op stage) and the start of the next
+  st: number; // Co-op stage (1-based; 0 in other modes)
+  en: number; // Co-op enemies left this stage, including those yet to arrive
+}
+
+export interface Snapshot {
+  t: number; // Server tick
+  p: SnapshotPlayer[];
+  b: SnapshotBullet[];
+  pk: SnapshotPickup[];
+  m?: SnapshotMatch;
+}
+
+type EntityDelta<T extends { id: string }> = Partial<T> & { id: string };
+
+/**
+ * Snapshot as sent on the wire. Without `bt` it is a full snapshot; with `bt`
+ * the entity lists hold only new entities and changed fields relative to the
+ * snapshot of tick `bt`, and the `r*` lists name entities that went away.
+ */
+export interface DeltaSnapshot {
+  t: number;
+  bt?: number; // Baseline tick the delta applies to
+  p?: EntityDelta<SnapshotPlayer>[];
+  b?: EntityDelta<SnapshotBullet>[];
+  pk?: EntityDelta<SnapshotPickup>[];
+  rp?: string[]; // Removed players
+  rb?: string[]; // Removed bullets
+  rpk?: string[]; // Removed pickups
+  m?: Partial<SnapshotMatch>; // Changed match fields
+}
+
+function diffEntities<T extends { id: string }>(
+  base: T[],
+  current: T[]
+): { changed: EntityDelta<T>[]; removed: string[] } {
+  const baseById = new Map(base.map(entity => [entity.id, entity]));
+  const changed: EntityDelta<T>[] = [];
+
+  current.forEach((entity) => {
+    const previous = baseById.get(entity.id);
+    baseById.delete(entity.id);
+    if (!previous) {
+      changed.push(entity);
+      return;
+    }
+
+    const delta: EntityDelta<T> = { id: entity.id } as EntityDelta<T>;
+    let hasChanges = false;
+    (Object.keys(entity) as (keyof T)[]).forEach((key) => {
+      if (entity[key] !== previous[key]) {
+        delta[key] = entity[key];
+        hasChanges = true;
+      }
+    });
+    if (hasChanges) {
+      changed.push(delta);
+    }
+  });
+
+  return { changed, removed: Array.from(baseById.keys()) };
+}
+
+function diffFields<T extends object>(base: T | undefined, current: T): Partial<T> | undefined {
+  if (!base) return current;
+  const delta: Partial<T> = {};
+  let hasChanges = false;
+  (Object.keys(current) as (keyof T)[]).forEach((key) => {
+    if (current[key] !== base[key]) {
+      delta[key] = current[key];
+      hasChanges = true;
+    }
+  });
+  return hasChanges ? delta : undefined;
+}
+
+function applyEntities<T extends { id: string }>(
+  base: T[],
+  changed: EntityDelta<T>[] = [],
+  removed: string[] = []
+): T[] {
+  const removedIds = new Set(removed);
+  const entities = new Map<string, T>();
+  base.forEach((entity) => {
+    if (!removedIds.has(entity.id)) {
+      entities.set(entity.id, entity);
+    }
+  });
+
+  changed.forEach((delta) => {
+    const previous = entities.get(delta.id);
+    entities.set(delta.id, previous ? { ...previous, ...delta } : delta as T);
+  });
+
+  return Array.from(entities.values());
+}
+
+/**
+ * Encode a snapshot relative to a baseline (a full snapshot when there is none)
+ */
+export function diffSnapshot(base: Snapshot | undefined, current: Snapshot): DeltaSnapshot {
+  if (!base) {
+    return current;
+  }
+
+  const delta: DeltaSnapshot = { t: current.t, bt: base.t };
+  const players = diffEntities(base.p, current.p);
+  const bullets = diffEntities(base.b, current.b);
+  const pickups = diffEntities(base.pk, current.pk);
+
+  // Leave out empty lists to keep idle ticks small
+  if (players.changed.length > 0) delta.p = players.changed;
+  if (bullets.changed.length > 0) delta.b = bullets.changed;
+  if (pickups.changed.length > 0) delta.pk = pickups.changed;
+  if (players.removed.length > 0) delta.rp = players.removed;
+  if (bullets.removed.length > 0) delta.rb = bullets.removed;
+  if (pickups.removed.length > 0) delta.rpk = pickups.removed;
+  if (current.m) {
+    const match = diffFields(base.m, current.m);
+    if (match) delta.m = match;
+  }
+  return delta;
+}
+
+/**
+ * Rebuild the full snapshot from a delta and the baseline it was encoded against
+ */
+export function applyDelta(base: Snapshot | undefined, delta: DeltaSnapshot): Snapshot {
+  const empty: Snapshot = { t: delta.t, p: [], b: [], pk: [] };
+  const baseline = delta.bt !== undefined && base ? base : empty;
+
+  const snapshot: Snapshot = {
+    t: delta.t,
+    p: applyEntities(baseline.p, delta.p, delta.rp),
+    b: applyEntities(baseline.b, delta.b, delta.rb),
+    pk: applyEntities(baseline.pk, delta.pk, delta.rpk),
+  };
+  if (delta.m || baseline.m) {
+    snapshot.m = delta.m ? { ...baseline.m, ...delta.m } as SnapshotMatch : baseline.m;
+  }
+  return snapshot;
+}
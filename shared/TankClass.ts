@@ -0,0 +1,33 @@
+/**
+ * Tank Classes
+ * Player tanks pick a class that trades speed for armour. The server simulates
+ * each tank with its class's values and the client predicts its own tank with
+ * the same ones, so they live here.
+ */
+
+import { TANK_SPEED, ROTATION_SPEED } from './TankSimulation';
+
+export type TankClass = 'scout' | 'medium' | 'heavy';
+
+export const TANK_CLASSES: TankClass[] = ['scout', 'medium', 'heavy'];
+export const DEFAULT_TANK_CLASS: TankClass = 'medium';
+
+export interface TankClassStats {
+  title: string;
+  speed: number; // Units per second
+  rotationSpeed: number; // Radians per second
+  maxHealth: number;
+  regen: number; // Health recovered per second
+  fireCooldown: number; // ms between shots
+}
+
+// Rotation speeds are whole multiples of the 0.01 rad rotation quantum per step
+export const TANK_CLASS_STATS: Record<TankClass, TankClassStats> = {
+  scout: { title: 'Scout', speed: TANK_SPEED * 1.25, rotationSpeed: ROTATION_SPEED * 1.25, maxHealth: 70, regen: 2, fireCooldown: 400 },
+  medium: { title: 'Medium', speed: TANK_SPEED, rotationSpeed: ROTATION_SPEED, maxHealth: 100, regen: 2.5, fireCooldown: 500 },
+  heavy: { title: 'Heavy', speed: TANK_SPEED * 0.75, rotationSpeed: ROTATION_SPEED * 0.75, maxHealth: 150, regen: 3, fireCooldown: 700 },
+};
+
+export function isTankClass(value: unknown): value is TankClass {
+  return TANK_CLASSES.includes(value as TankClass);
+}
@@ -0,0 +1,178 @@
+/**
+ * Deterministic Tank Simulation
+ * Pure fixed-timestep movement and collision shared by the server (authoritative
+ * simulation) and the client (prediction and reconciliation). Every input is
+ * applied as exactly one FIXED_DT step and the resulting state is quantized to
+ * the precision sent in snapshots, so replaying unconfirmed inputs on top of a
+ * snapshot reproduces what the server computed.
+ */
+
+import { MapObject, MapObjectType, blocksTanks, circleCollidesWithMapObject, pointInMapObject } from './MapObject';
+
+export const TICK_RATE = 25; // Hz
+export const FIXED_DT = 1 / TICK_RATE; // Seconds per simulation step
+
+export const WORLD_WIDTH = 4000;
+export const WORLD_HEIGHT = 4000;
+
+// Constants (units per second)
+export const TANK_SPEED = 3.5 * 25 * 3.2; // ~280 units/sec
+export const ROTATION_SPEED = 0.1 * 25 * 3.6; // ~9 rad/sec
+export const BULLET_SPEED = 5 * 25 * 5; // ~625 units/sec
+export const TANK_RADIUS = 20;
+// Share of the difference between a tank's velocity and the one its input asks
+// for that is made up each step on ice (1 would be full grip)
+export const ICE_GRIP = 0.08;
+const MIN_SLIDE_SPEED = 1; // Units per second below which a slide stops
+
+export interface TankState {
+  x: number;
+  y: number;
+  rotation: number;
+  vx?: number; // Velocity (units per second); only carries over between steps on ice
+  vy?: number;
+}
+
+export interface TankInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+export interface TankParams {
+  speed: number; // Units per second
+  rotationSpeed: number; // Radians per second
+  radius: number;
+}
+
+export const DEFAULT_TANK_PARAMS: TankParams = {
+  speed: TANK_SPEED,
+  rotationSpeed: ROTATION_SPEED,
+  radius: TANK_RADIUS,
+};
+
+/**
+ * The world a tank moves in: its bounds and whatever blocks movement
+ */
+export interface TankWorld {
+  width: number;
+  height: number;
+  collides(x: number, y: number, radius: number): boolean;
+  isIce(x: number, y: number): boolean;
+}
+
+/**
+ * Round a state to snapshot precision (0.01 units, 0.01 rad, 0.01 units/s)
+ */
+export function quantizeTankState(state: TankState): TankState {
+  return {
+    x: Math.round(state.x * 100) / 100,
+    y: Math.round(state.y * 100) / 100,
+    rotation: Math.round(state.rotation * 100) / 100,
+    vx: Math.round((state.vx ?? 0) * 100) / 100,
+    vy: Math.round((state.vy ?? 0) * 100) / 100,
+  };
+}
+
+/**
+ * Advance a tank by one fixed step. Off ice a tank moves at the speed its
+ * input asks for; on ice its velocity only eases towards that (ICE_GRIP), so
+ * it keeps sliding after the input stops. Hitting something stops it dead.
+ */
+export function stepTank(
+  state: TankState,
+  input: TankInput,
+  world: TankWorld,
+  params: TankParams = DEFAULT_TANK_PARAMS
+): TankState {
+  let rotation = state.rotation;
+
+  // Apply rotation
+  if (input.left) {
+    rotation -= params.rotationSpeed * FIXED_DT;
+  }
+  if (input.right) {
+    rotation += params.rotationSpeed * FIXED_DT;
+  }
+
+  // Normalize rotation to [0, 2π)
+  while (rotation < 0) rotation += Math.PI * 2;
+  while (rotation >= Math.PI * 2) rotation -= Math.PI * 2;
+  rotation = Math.round(rotation * 100) / 100;
+
+  let x = state.x;
+  let y = state.y;
+
+  // Forward takes priority over backward
+  const direction = input.up ? 1 : input.down ? -1 : 0;
+  let vx = Math.sin(rotation) * params.speed * direction;
+  let vy = -Math.cos(rotation) * params.speed * direction;
+  if (world.isIce(x, y)) {
+    vx = (state.vx ?? 0) + (vx - (state.vx ?? 0)) * ICE_GRIP;
+    vy = (state.vy ?? 0) + (vy - (state.vy ?? 0)) * ICE_GRIP;
+    if (Math.hypot(vx, vy) < MIN_SLIDE_SPEED) {
+      vx = 0;
+      vy = 0;
+    }
+  }
+
+  if (vx !== 0 || vy !== 0) {
+    const proposedX = Math.max(params.radius, Math.min(x + vx * FIXED_DT, world.width - params.radius));
+    const proposedY = Math.max(params.radius, Math.min(y + vy * FIXED_DT, world.height - params.radius));
+
+    if (!world.collides(proposedX, proposedY, params.radius)) {
+      x = proposedX;
+      y = proposedY;
+    } else {
+      vx = 0;
+      vy = 0;
+    }
+  }
+
+  return quantizeTankState({ x, y, rotation, vx, vy });
+}
+
+/**
+ * TankWorld backed by a list of map objects (no other tanks)
+ */
+export class MapCollider implements TankWorld {
+  readonly width: number;
+  readonly height: number;
+  private objects = new Map<string, MapObject>();
+
+  constructor(width: number = WORLD_WIDTH, height: number = WORLD_HEIGHT) {
+    this.width = width;
+    this.height = height;
+  }
+
+  setObjects(objects: MapObject[]): void {
+    this.objects.clear();
+    objects.forEach(obj => this.objects.set(obj.id, { ...obj }));
+  }
+
+  updateObject(objectId: string, changes: Partial<MapObject>): void {
+    const obj = this.objects.get(objectId);
+    if (obj) {
+      Object.assign(obj, changes);
+    }
+  }
+
+  collides(x: number, y: number, radius: number): boolean {
+    for (const obj of this.objects.values()) {
+      if (blocksTanks(obj) && circleCollidesWithMapObject(x, y, radius, obj)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  isIce(x: number, y: number): boolean {
+    for (const obj of this.objects.values()) {
+      if (obj.type === MapObjectType.ICE && pointInMapObject(x, y, obj)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Binary Wire Format
+ * Compact encoding for the two hot messages: player inputs (client -> server)
+ * and delta snapshots (server -> client), sent as socket.io binary attachments.
+ *
+ * - Inputs are one byte of button flags followed by a varint sequence ID.
+ * - Snapshots encode each entity list against a fixed field schema: the entity
+ *   ID, a bitmask of the fields present (deltas carry only changed fields) and
+ *   then the values. Positions are int32 in hundredths of a unit, everything
+ *   else is a (zigzag) varint. The match state, when present, is encoded the
+ *   same way without an ID.
+ * - Strings (entity IDs, pickup types, weapons) go through a per-connection string table
+ *   so each one is sent once and then referred to by index. An index is freed
+ *   when its entity is listed as removed, and the table starts over with every
+ *   full snapshot, so both sides stay in step as long as messages are decoded in
+ *   the order they were encoded (which socket.io guarantees).
+ */
+
+import { DeltaSnapshot } from './Snapshot';
+
+export type WireProtocol = 'json' | 'binary';
+
+export interface WireInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  shoot: boolean;
+  sequenceId: number;
+}
+
+const INPUT_FLAGS = {
+  up: 1,
+  down: 2,
+  left: 4,
+  right: 8,
+  shoot: 16,
+} as const;
+
+type FieldKind = 'fixed' | 'uint' | 'int' | 'string';
+type FieldSchema = [name: string, kind: FieldKind][];
+
+// Field order is part of the format: append new fields, never reorder
+const PLAYER_FIELDS: FieldSchema = [
+  ['x', 'fixed'],
+  ['y', 'fixed'],
+  ['r', 'uint'],
+  ['h', 'int'],
+  ['s', 'int'],
+  ['sid', 'uint'],
+  ['d', 'uint'],
+  ['pr', 'uint'],
+  ['fx', 'uint'],
+  ['lv', 'uint'],
+  ['ai', 'uint'],
+  ['tm', 'uint'],
+  ['mh', 'uint'],
+  ['k', 'string'],
+  ['vx', 'fixed'],
+  ['vy', 'fixed'],
+  ['wp', 'string'],
+  ['am', 'uint'],
+  ['tc', 'string'],
+  ['kl', 'uint'],
+  ['dt', 'uint'],
+  ['as', 'uint'],
+];
+
+const BULLET_FIELDS: FieldSchema = [
+  ['x', 'fixed'],
+  ['y', 'fixed'],
+  ['dx', 'int'],
+  ['dy', 'int'],
+  ['sp', 'uint'],
+  ['w', 'string'],
+];
+
+const PICKUP_FIELDS: FieldSchema = [
+  ['k', 'string'],
+  ['x', 'fixed'],
+  ['y', 'fixed'],
+  ['e', 'uint'],
+];
+
+const MATCH_FIELDS: FieldSchema = [
+  ['md', 'string'],
+  ['t1', 'uint'],
+  ['t2', 'uint'],
+  ['tl', 'uint'],
+  ['ov', 'uint'],
+  ['st', 'uint'],
+  ['en', 'uint'],
+];
+
+const SNAPSHOT_HAS_BASELINE = 1;
+const SNAPSHOT_HAS_MATCH = 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  private ensure(bytes: number) {
+    if (this.length + bytes <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + bytes) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  writeUint8(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  writeVarUint(value: number) {
+    // Arithmetic rather than bit ops so values above 2^31 survive
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.writeUint8((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.writeUint8(remaining);
+  }
+
+  writeVarInt(value: number) {
+    const rounded = Math.round(value);
+    this.writeVarUint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  writeFixed(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.length, Math.round(value * 100), true);
+    this.length += 4;
+  }
+
+  writeString(value: string) {
+    const bytes = textEncoder.encode(value);
+    this.writeVarUint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readUint8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new RangeError('Unexpected end of message');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readVarUint(): number {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < 8; i++) {
+      const byte = this.readUint8();
+      value += (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) return value;
+      scale *= 0x80;
+    }
+    throw new RangeError('Varint too long');
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readFixed(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value / 100;
+  }
+
+  readString(): string {
+    const length = this.readVarUint();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError('Unexpected end of message');
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+/**
+ * Encoder half of a connection's string table
+ */
+class StringTableWriter {
+  private indices = new Map<string, number>();
+  private freeIndices: number[] = [];
+  private nextIndex = 0;
+
+  write(writer: ByteWriter, value: string) {
+    const index = this.indices.get(value);
+    if (index !== undefined) {
+      writer.writeVarUint(index * 2);
+      return;
+    }
+
+    const newIndex = this.freeIndices.pop() ?? this.nextIndex++;
+    this.indices.set(value, newIndex);
+    // Low bit set: the string itself follows
+    writer.writeVarUint(newIndex * 2 + 1);
+    writer.writeString(value);
+  }
+
+  release(value: string) {
+    const index = this.indices.get(value);
+    if (index !== undefined) {
+      this.indices.delete(value);
+      this.freeIndices.push(index);
+    }
+  }
+
+  clear() {
+    this.indices.clear();
+    this.freeIndices = [];
+    this.nextIndex = 0;
+  }
+}
+
+/**
+ * Decoder half of a connection's string table
+ */
+class StringTableReader {
+  private strings: string[] = [];
+
+  read(reader: ByteReader): string {
+    const ref = reader.readVarUint();
+    const index = Math.floor(ref / 2);
+    if (ref % 2 === 1) {
+      this.strings[index] = reader.readString();
+    }
+    const value = this.strings[index];
+    if (value === undefined) {
+      throw new RangeError(`Unknown string index ${index}`);
+    }
+    return value;
+  }
+
+  clear() {
+    this.strings = [];
+  }
+}
+
+export function encodeInput(input: WireInput): Uint8Array {
+  const writer = new ByteWriter();
+  let flags = 0;
+  if (input.up) flags |= INPUT_FLAGS.up;
+  if (input.down) flags |= INPUT_FLAGS.down;
+  if (input.left) flags |= INPUT_FLAGS.left;
+  if (input.right) flags |= INPUT_FLAGS.right;
+  if (input.shoot) flags |= INPUT_FLAGS.shoot;
+  writer.writeUint8(flags);
+  writer.writeVarUint(input.sequenceId);
+  return writer.finish();
+}
+
+/**
+ * @throws RangeError if the message is truncated
+ */
+export function decodeInput(bytes: Uint8Array): WireInput {
+  const reader = new ByteReader(bytes);
+  const flags = reader.readUint8();
+  return {
+    up: (flags & INPUT_FLAGS.up) !== 0,
+    down: (flags & INPUT_FLAGS.down) !== 0,
+    left: (flags & INPUT_FLAGS.left) !== 0,
+    right: (flags & INPUT_FLAGS.right) !== 0,
+    shoot: (flags & INPUT_FLAGS.shoot) !== 0,
+    sequenceId: reader.readVarUint(),
+  };
+}
+
+/**
+ * Encodes the snapshots sent over one connection
+ */
+export class SnapshotEncoder {
+  private strings = new StringTableWriter();
+
+  encode(snapshot: DeltaSnapshot): Uint8Array {
+    const writer = new ByteWriter();
+    const hasBaseline = snapshot.bt !== undefined;
+    if (!hasBaseline) {
+      this.strings.clear();
+    }
+
+    writer.writeUint8((hasBaseline ? SNAPSHOT_HAS_BASELINE : 0) | (snapshot.m ? SNAPSHOT_HAS_MATCH : 0));
+    writer.writeVarUint(snapshot.t);
+    if (hasBaseline) {
+      writer.writeVarUint(snapshot.bt!);
+    }
+    if (snapshot.m) {
+      this.writeFields(writer, snapshot.m, MATCH_FIELDS);
+    }
+
+    this.writeEntities(writer, snapshot.p, PLAYER_FIELDS);
+    this.writeEntities(writer, snapshot.b, BULLET_FIELDS);
+    this.writeEntities(writer, snapshot.pk, PICKUP_FIELDS);
+    this.writeRemovals(writer, snapshot.rp);
+    this.writeRemovals(writer, snapshot.rb);
+    this.writeRemovals(writer, snapshot.rpk);
+    return writer.finish();
+  }
+
+  private writeEntities(writer: ByteWriter, entities: { id: string }[] = [], schema: FieldSchema) {
+    writer.writeVarUint(entities.length);
+    entities.forEach((entity) => {
+      this.strings.write(writer, entity.id);
+      this.writeFields(writer, entity, schema);
+    });
+  }
+
+  private writeFields(writer: ByteWriter, fields: object, schema: FieldSchema) {
+    const values = fields as Record<string, unknown>;
+    let mask = 0;
+    schema.forEach(([name], bit) => {
+      if (values[name] !== undefined) mask |= 1 << bit;
+    });
+    writer.writeVarUint(mask);
+
+    schema.forEach(([name, kind]) => {
+      const value = values[name];
+      if (value === undefined) return;
+      switch (kind) {
+        case 'fixed': writer.writeFixed(value as number); break;
+        case 'uint': writer.writeVarUint(value as number); break;
+        case 'int': writer.writeVarInt(value as number); break;
+        case 'string': this.strings.write(writer, value as string); break;
+      }
+    });
+  }
+
+  private writeRemovals(writer: ByteWriter, ids: string[] = []) {
+    writer.writeVarUint(ids.length);
+    ids.forEach(id => this.strings.write(writer, id));
+    ids.forEach(id => this.strings.release(id));
+  }
+}
+
+/**
+ * Decodes the snapshots received over one connection
+ */
+export class SnapshotDecoder {
+  private strings = new StringTableReader();
+
+  /**
+   * @throws RangeError if the message is malformed
+   */
+  decode(bytes: Uint8Array): DeltaSnapshot {
+    const reader = new ByteReader(bytes);
+    const flags = reader.readUint8();
+    const hasBaseline = (flags & SNAPSHOT_HAS_BASELINE) !== 0;
+    if (!hasBaseline) {
+      this.strings.clear();
+    }
+
+    const snapshot: DeltaSnapshot = { t: reader.readVarUint() };
+    if (hasBaseline) {
+      snapshot.bt = reader.readVarUint();
+    }
+    if (flags & SNAPSHOT_HAS_MATCH) {
+      snapshot.m = this.readFields(reader, MATCH_FIELDS) as DeltaSnapshot['m'];
+    }
+
+    const players = this.readEntities(reader, PLAYER_FIELDS);
+    const bullets = this.readEntities(reader, BULLET_FIELDS);
+    const pickups = this.readEntities(reader, PICKUP_FIELDS);
+    const removedPlayers = this.readRemovals(reader);
+    const removedBullets = this.readRemovals(reader);
+    const removedPickups = this.readRemovals(reader);
+
+    // Mirror the JSON format: a full snapshot always has its lists, a delta only non-empty ones
+    if (!hasBaseline || players.length > 0) snapshot.p = players as DeltaSnapshot['p'];
+    if (!hasBaseline || bullets.length > 0) snapshot.b = bullets as DeltaSnapshot['b'];
+    if (!hasBaseline || pickups.length > 0) snapshot.pk = pickups as DeltaSnapshot['pk'];
+    if (removedPlayers.length > 0) snapshot.rp = removedPlayers;
+    if (removedBullets.length > 0) snapshot.rb = removedBullets;
+    if (removedPickups.length > 0) snapshot.rpk = removedPickups;
+    return snapshot;
+  }
+
+  clear() {
+    this.strings.clear();
+  }
+
+  private readEntities(reader: ByteReader, schema: FieldSchema): Record<string, unknown>[] {
+    const count = reader.readVarUint();
+    const entities: Record<string, unknown>[] = [];
+    for (let i = 0; i < count; i++) {
+      const id = this.strings.read(reader);
+      entities.push({ id, ...this.readFields(reader, schema) });
+    }
+    return entities;
+  }
+
+  private readFields(reader: ByteReader, schema: FieldSchema): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    const mask = reader.readVarUint();
+    schema.forEach(([name, kind], bit) => {
+      if ((mask & (1 << bit)) === 0) return;
+      switch (kind) {
+        case 'fixed': fields[name] = reader.readFixed(); break;
+        case 'uint': fields[name] = reader.readVarUint(); break;
+        case 'int': fields[name] = reader.readVarInt(); break;
+        case 'string': fields[name] = this.strings.read(reader); break;
+      }
+    });
+    return fields;
+  }
+
+  private readRemovals(reader: ByteReader): string[] {
+    const count = reader.readVarUint();
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+      ids.push(this.strings.read(reader));
+    }
+    return ids;
+  }
+}